@@ -4,6 +4,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Play from "./pages/Play";
+import Leaderboard from "./pages/Leaderboard";
+import Replay from "./pages/Replay";
+import Settings from "./pages/Settings";
+import CustomModes from "./pages/CustomModes";
+import Garage from "./pages/Garage";
+import PaintShop from "./pages/PaintShop";
+import Profile from "./pages/Profile";
+import Achievements from "./pages/Achievements";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +25,15 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/play/:mode" element={<Play />} />
+          <Route path="/leaderboard/:board?" element={<Leaderboard />} />
+          <Route path="/replay/:id" element={<Replay />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="/custom" element={<CustomModes />} />
+          <Route path="/garage" element={<Garage />} />
+          <Route path="/garage/paint" element={<PaintShop />} />
+          <Route path="/profile" element={<Profile />} />
+          <Route path="/profile/achievements" element={<Achievements />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ACHIEVEMENTS, ACHIEVEMENT_IDS, loadAchievements } from '@/lib/achievements';
+import { cn } from '@/lib/utils';
+
+interface AchievementsProps {
+  onBack: () => void;
+}
+
+export const Achievements: React.FC<AchievementsProps> = ({ onBack }) => {
+  const [data] = useState(loadAchievements);
+
+  const unlockedCount = ACHIEVEMENT_IDS.filter(id => data[id]?.unlockedAt).length;
+
+  return (
+    <div className="min-h-screen bg-game-dark-bg">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <Button
+            onClick={onBack}
+            variant="outline"
+            className="border-game-neon-blue text-game-neon-blue hover:bg-game-neon-blue hover:text-primary-foreground"
+          >
+            ← Back to Profile
+          </Button>
+
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-game-neon-blue via-game-neon-pink to-game-neon-green bg-clip-text text-transparent">
+            🏅 Achievements
+          </h1>
+
+          <div className="w-32 text-right text-game-neon-yellow font-bold">
+            {unlockedCount}/{ACHIEVEMENT_IDS.length}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {ACHIEVEMENT_IDS.map(id => {
+            const { title, description, icon, goal, unit = '' } = ACHIEVEMENTS[id];
+            const { progress = 0, unlockedAt } = data[id] ?? {};
+
+            return (
+              <Card
+                key={id}
+                className={cn(
+                  'bg-card/90 backdrop-blur-sm border-border/50',
+                  unlockedAt && 'border-game-neon-green/50'
+                )}
+              >
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <CardTitle className={unlockedAt ? 'text-game-neon-green' : 'text-muted-foreground'}>
+                      <span className={cn('mr-2', !unlockedAt && 'grayscale opacity-50')}>{icon}</span>
+                      {title}
+                    </CardTitle>
+                    {unlockedAt && (
+                      <Badge variant="outline" className="border-game-neon-green text-game-neon-green">
+                        {new Date(unlockedAt).toLocaleDateString()}
+                      </Badge>
+                    )}
+                  </div>
+                  <CardDescription>{description}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  <Progress value={(progress / goal) * 100} className="h-2" />
+                  <div className="text-right text-sm text-muted-foreground">
+                    {progress.toLocaleString()}{unit} / {goal.toLocaleString()}{unit}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
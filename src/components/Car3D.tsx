@@ -1,6 +1,8 @@
 import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { CARS, CarBody, DEFAULT_CAR } from '@/lib/garage';
+import { RimStyle } from '@/lib/paint';
 
 interface CarProps {
   position: [number, number, number];
@@ -8,50 +10,96 @@ interface CarProps {
   color?: string;
   isPlayer?: boolean;
   speed?: number;
+  opacity?: number; // Below 1 renders a translucent ghost
+  signal?: number; // Turn indicator: -1 left, 1 right, 0 off
+  body?: CarBody; // Proportions of a garage car; plain traffic when absent
+  accentColor?: string; // Roof and spoiler; the body colour when absent
+  rimStyle?: RimStyle;
+  underglow?: string; // Neon light under the car
 }
 
+// Indicator flashes per second; even the shortest signal (see drivers.ts)
+// lasts a full flash
+const SIGNAL_BLINK_RATE = 3;
+
+const TRAFFIC_BODY: CarBody = { ...CARS[DEFAULT_CAR].body, spoiler: 'none' };
+
 export const Car3D: React.FC<CarProps> = ({ 
   position, 
   rotation = [0, 0, 0], 
   color = '#ff0000',
   isPlayer = false,
-  speed = 0
+  speed = 0,
+  opacity = 1,
+  signal = 0,
+  body = TRAFFIC_BODY,
+  accentColor = color,
+  rimStyle = 'classic',
+  underglow
 }) => {
   const groupRef = useRef<THREE.Group>(null);
   const wheelsRef = useRef<THREE.Mesh[]>([]);
+  const indicatorsRef = useRef<THREE.Group>(null);
+  const signalStartRef = useRef<number | null>(null);
 
   // Create car geometry
+  const { width, height, length, roofWidth, roofHeight, roofLength, roofOffset, spoiler, wheelRadius } = body;
   const carGeometry = useMemo(() => {
-    const bodyGeometry = new THREE.BoxGeometry(0.8, 0.3, 1.6);
-    const roofGeometry = new THREE.BoxGeometry(0.6, 0.2, 0.8);
-    const wheelGeometry = new THREE.CylinderGeometry(0.15, 0.15, 0.1, 8);
+    const bodyGeometry = new THREE.BoxGeometry(width, height, length);
+    const roofGeometry = new THREE.BoxGeometry(roofWidth, roofHeight, roofLength);
+    const wheelGeometry = new THREE.CylinderGeometry(wheelRadius, wheelRadius, 0.1, 8);
     
     return { bodyGeometry, roofGeometry, wheelGeometry };
-  }, []);
+  }, [width, height, length, roofWidth, roofHeight, roofLength, wheelRadius]);
+
+  // Body-relative anchor points
+  const roofY = height / 2 + roofHeight / 2;
+  const wheelX = width / 2 - 0.05;
+  const wheelZ = length / 2 - 0.3;
+  const wheelPositions: [number, number, number][] = [
+    [wheelX, -0.2, wheelZ], [-wheelX, -0.2, wheelZ],
+    [wheelX, -0.2, -wheelZ], [-wheelX, -0.2, -wheelZ]
+  ];
 
   // Materials
+  const isGhost = opacity < 1;
+
   const carMaterial = useMemo(() => new THREE.MeshPhongMaterial({ 
     color: color,
     shininess: 100,
-    specular: 0x222222
-  }), [color]);
+    specular: 0x222222,
+    transparent: isGhost,
+    opacity
+  }), [color, isGhost, opacity]);
+
+  const accentMaterial = useMemo(() => new THREE.MeshPhongMaterial({ 
+    color: accentColor,
+    shininess: 100,
+    specular: 0x222222,
+    transparent: isGhost,
+    opacity
+  }), [accentColor, isGhost, opacity]);
 
   const glassMaterial = useMemo(() => new THREE.MeshPhongMaterial({ 
     color: 0x87ceeb,
     transparent: true,
-    opacity: 0.3,
+    opacity: 0.3 * opacity,
     shininess: 200
-  }), []);
+  }), [opacity]);
 
   const wheelMaterial = useMemo(() => new THREE.MeshPhongMaterial({ 
-    color: 0x333333 
-  }), []);
+    color: 0x333333,
+    transparent: isGhost,
+    opacity
+  }), [isGhost, opacity]);
 
   const rimMaterial = useMemo(() => new THREE.MeshPhongMaterial({ 
     color: 0xcccccc,
     shininess: 100,
-    specular: 0x444444
-  }), []);
+    specular: 0x444444,
+    transparent: isGhost,
+    opacity
+  }), [isGhost, opacity]);
 
   // Animation
   useFrame((state, delta) => {
@@ -66,6 +114,15 @@ export const Car3D: React.FC<CarProps> = ({
       groupRef.current.position.y = position[1] + Math.sin(state.clock.elapsedTime * 2) * 0.02;
     }
 
+    // Blinking turn signal, lit from the moment it starts
+    if (signal === 0) {
+      signalStartRef.current = null;
+    } else if (indicatorsRef.current) {
+      signalStartRef.current ??= state.clock.elapsedTime;
+      const elapsed = state.clock.elapsedTime - signalStartRef.current;
+      indicatorsRef.current.visible = Math.floor(elapsed * SIGNAL_BLINK_RATE * 2) % 2 === 0;
+    }
+
     // Engine vibration for high speeds
     if (isPlayer && speed > 8 && groupRef.current) {
       groupRef.current.rotation.z = Math.sin(state.clock.elapsedTime * 20) * 0.005;
@@ -78,92 +135,131 @@ export const Car3D: React.FC<CarProps> = ({
       <mesh position={[0, 0, 0]} geometry={carGeometry.bodyGeometry} material={carMaterial} />
       
       {/* Car Roof */}
-      <mesh position={[0, 0.25, -0.2]} geometry={carGeometry.roofGeometry} material={carMaterial} />
+      <mesh position={[0, roofY, roofOffset]} geometry={carGeometry.roofGeometry} material={accentMaterial} />
       
       {/* Windshield */}
-      <mesh position={[0, 0.25, 0.2]} rotation={[0.3, 0, 0]}>
-        <boxGeometry args={[0.58, 0.18, 0.02]} />
+      <mesh position={[0, roofY, roofOffset + roofLength / 2]} rotation={[0.3, 0, 0]}>
+        <boxGeometry args={[roofWidth - 0.02, roofHeight - 0.02, 0.02]} />
         <primitive object={glassMaterial} />
       </mesh>
       
       {/* Side Windows */}
-      <mesh position={[0.29, 0.25, -0.2]} rotation={[0, 0, 0.1]}>
-        <boxGeometry args={[0.02, 0.18, 0.6]} />
+      <mesh position={[roofWidth / 2 - 0.01, roofY, roofOffset]} rotation={[0, 0, 0.1]}>
+        <boxGeometry args={[0.02, roofHeight - 0.02, roofLength * 0.75]} />
         <primitive object={glassMaterial} />
       </mesh>
-      <mesh position={[-0.29, 0.25, -0.2]} rotation={[0, 0, -0.1]}>
-        <boxGeometry args={[0.02, 0.18, 0.6]} />
+      <mesh position={[-roofWidth / 2 + 0.01, roofY, roofOffset]} rotation={[0, 0, -0.1]}>
+        <boxGeometry args={[0.02, roofHeight - 0.02, roofLength * 0.75]} />
         <primitive object={glassMaterial} />
       </mesh>
 
-      {/* Wheels */}
-      <mesh 
-        ref={(el) => { if (el) wheelsRef.current[0] = el; }}
-        position={[0.35, -0.2, 0.5]} 
-        rotation={[Math.PI / 2, 0, 0]} 
-        geometry={carGeometry.wheelGeometry} 
-        material={wheelMaterial} 
-      />
-      <mesh 
-        ref={(el) => { if (el) wheelsRef.current[1] = el; }}
-        position={[-0.35, -0.2, 0.5]} 
-        rotation={[Math.PI / 2, 0, 0]} 
-        geometry={carGeometry.wheelGeometry} 
-        material={wheelMaterial} 
-      />
-      <mesh 
-        ref={(el) => { if (el) wheelsRef.current[2] = el; }}
-        position={[0.35, -0.2, -0.5]} 
-        rotation={[Math.PI / 2, 0, 0]} 
-        geometry={carGeometry.wheelGeometry} 
-        material={wheelMaterial} 
-      />
-      <mesh 
-        ref={(el) => { if (el) wheelsRef.current[3] = el; }}
-        position={[-0.35, -0.2, -0.5]} 
-        rotation={[Math.PI / 2, 0, 0]} 
-        geometry={carGeometry.wheelGeometry} 
-        material={wheelMaterial} 
-      />
-
-      {/* Wheel Rims */}
-      {[
-        [0.35, -0.2, 0.5], [-0.35, -0.2, 0.5],
-        [0.35, -0.2, -0.5], [-0.35, -0.2, -0.5]
-      ].map((pos, index) => (
-        <mesh key={index} position={pos as [number, number, number]} rotation={[Math.PI / 2, 0, 0]}>
-          <cylinderGeometry args={[0.1, 0.1, 0.02, 6]} />
-          <primitive object={rimMaterial} />
+      {/* Wheels, each carrying its rim so the two spin together */}
+      {wheelPositions.map((pos, index) => (
+        <mesh 
+          key={index}
+          ref={(el) => { if (el) wheelsRef.current[index] = el; }}
+          position={pos} 
+          rotation={[0, 0, Math.PI / 2]} 
+          geometry={carGeometry.wheelGeometry} 
+          material={wheelMaterial} 
+        >
+          {rimStyle === 'classic' && (
+            <mesh>
+              <cylinderGeometry args={[wheelRadius * 0.67, wheelRadius * 0.67, 0.102, 6]} />
+              <primitive object={rimMaterial} />
+            </mesh>
+          )}
+          {rimStyle === 'solid' && (
+            <mesh>
+              <cylinderGeometry args={[wheelRadius * 0.85, wheelRadius * 0.85, 0.104, 16]} />
+              <primitive object={rimMaterial} />
+            </mesh>
+          )}
+          {rimStyle === 'spoke' && [0, 1, 2].map(spoke => (
+            <mesh key={spoke} rotation={[0, (spoke * Math.PI) / 3, 0]}>
+              <boxGeometry args={[wheelRadius * 1.5, 0.104, 0.025]} />
+              <primitive object={rimMaterial} />
+            </mesh>
+          ))}
+          {rimStyle === 'turbine' && (
+            <>
+              <mesh>
+                <cylinderGeometry args={[wheelRadius * 0.75, wheelRadius * 0.75, 0.102, 12]} />
+                <primitive object={accentMaterial} />
+              </mesh>
+              <mesh>
+                <cylinderGeometry args={[wheelRadius * 0.3, wheelRadius * 0.3, 0.106, 12]} />
+                <primitive object={rimMaterial} />
+              </mesh>
+            </>
+          )}
         </mesh>
       ))}
 
       {/* Headlights */}
-      <mesh position={[0.25, -0.05, 0.8]}>
+      <mesh position={[width * 0.31, -0.05, length / 2]}>
         <sphereGeometry args={[0.08, 8, 8]} />
-        <meshBasicMaterial color={0xffffaa} />
+        <meshBasicMaterial color={0xffffaa} transparent={isGhost} opacity={opacity} />
       </mesh>
-      <mesh position={[-0.25, -0.05, 0.8]}>
+      <mesh position={[-width * 0.31, -0.05, length / 2]}>
         <sphereGeometry args={[0.08, 8, 8]} />
-        <meshBasicMaterial color={0xffffaa} />
+        <meshBasicMaterial color={0xffffaa} transparent={isGhost} opacity={opacity} />
       </mesh>
 
       {/* Taillights */}
-      <mesh position={[0.2, -0.05, -0.8]}>
+      <mesh position={[width / 4, -0.05, -length / 2]}>
         <sphereGeometry args={[0.05, 8, 8]} />
-        <meshBasicMaterial color={0xff0000} />
+        <meshBasicMaterial color={0xff0000} transparent={isGhost} opacity={opacity} />
       </mesh>
-      <mesh position={[-0.2, -0.05, -0.8]}>
+      <mesh position={[-width / 4, -0.05, -length / 2]}>
         <sphereGeometry args={[0.05, 8, 8]} />
-        <meshBasicMaterial color={0xff0000} />
+        <meshBasicMaterial color={0xff0000} transparent={isGhost} opacity={opacity} />
       </mesh>
 
-      {/* Spoiler for sports cars */}
-      {isPlayer && (
-        <mesh position={[0, 0.1, -0.7]}>
-          <boxGeometry args={[0.6, 0.05, 0.2]} />
-          <primitive object={carMaterial} />
+      {/* Turn indicators, front and rear corners on the signalling side */}
+      {signal !== 0 && (
+        <group ref={indicatorsRef}>
+          {[length / 2, -length / 2].map(z => (
+            <mesh key={z} position={[(width / 2 - 0.02) * Math.sign(signal), 0, z]}>
+              <sphereGeometry args={[0.06, 8, 8]} />
+              <meshBasicMaterial color={0xffaa00} transparent={isGhost} opacity={opacity} />
+            </mesh>
+          ))}
+        </group>
+      )}
+
+      {/* Underglow */}
+      {underglow && (
+        <>
+          <mesh position={[0, -height / 2 - 0.02, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+            <planeGeometry args={[width * 1.1, length * 1.05]} />
+            <meshBasicMaterial color={underglow} transparent opacity={0.6 * opacity} side={THREE.DoubleSide} />
+          </mesh>
+          <pointLight position={[0, -height / 2 - 0.1, 0]} color={underglow} intensity={1.5} distance={2} />
+        </>
+      )}
+
+      {/* Spoiler: a lip on the boot lid, or a wing raised on struts */}
+      {spoiler === 'lip' && (
+        <mesh position={[0, height / 2 - 0.05, -length / 2 + 0.1]}>
+          <boxGeometry args={[width * 0.75, 0.05, 0.2]} />
+          <primitive object={accentMaterial} />
         </mesh>
       )}
+      {spoiler === 'wing' && (
+        <group position={[0, height / 2, -length / 2 + 0.12]}>
+          {[-1, 1].map(side => (
+            <mesh key={side} position={[side * width * 0.3, 0.08, 0]}>
+              <boxGeometry args={[0.04, 0.16, 0.06]} />
+              <primitive object={accentMaterial} />
+            </mesh>
+          ))}
+          <mesh position={[0, 0.17, 0]}>
+            <boxGeometry args={[width * 0.95, 0.03, 0.22]} />
+            <primitive object={accentMaterial} />
+          </mesh>
+        </group>
+      )}
     </group>
   );
 };
\ No newline at end of file
@@ -0,0 +1,58 @@
+import React, { useRef } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Car3D } from './Car3D';
+import { CarBody } from '@/lib/garage';
+import { DEFAULT_PAINT, Paint, underglowColor, withSpoiler } from '@/lib/paint';
+
+interface CarPreview3DProps {
+  body: CarBody;
+  paint?: Paint;
+  className?: string;
+}
+
+// Radians per second the turntable turns
+const TURN_RATE = 0.6;
+
+const Turntable: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const groupRef = useRef<THREE.Group>(null);
+
+  useFrame((_, delta) => {
+    if (groupRef.current) {
+      groupRef.current.rotation.y += TURN_RATE * delta;
+    }
+  });
+
+  return <group ref={groupRef}>{children}</group>;
+};
+
+// A single car slowly turning on a dark stage, for the garage screens
+export const CarPreview3D: React.FC<CarPreview3DProps> = ({ body, paint = DEFAULT_PAINT, className }) => (
+  <div className={className}>
+    <Canvas
+      camera={{ position: [1.8, 1.1, 2.2], fov: 40 }}
+      onCreated={({ camera }) => camera.lookAt(0, 0, 0)}
+      style={{ width: '100%', height: '100%' }}
+    >
+      <ambientLight intensity={0.6} />
+      <directionalLight position={[5, 6, 4]} intensity={1} />
+      <directionalLight position={[-5, 4, -3]} intensity={0.5} />
+
+      <Turntable>
+        <Car3D
+          position={[0, 0, 0]}
+          color={paint.body}
+          accentColor={paint.accent}
+          rimStyle={paint.rims}
+          underglow={underglowColor(paint)}
+          body={withSpoiler(body, paint.spoiler)}
+        />
+      </Turntable>
+
+      <mesh position={[0, -0.4, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <circleGeometry args={[1.4, 48]} />
+        <meshBasicMaterial color={0x1a1a2e} />
+      </mesh>
+    </Canvas>
+  </div>
+);
@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { toast } from '@/components/ui/sonner';
+import { formatTimeLimit } from '@/lib/modes';
+import { formatSpeed } from '@/lib/units';
+import { useSettings } from '@/hooks/use-settings';
+import {
+  CustomMode,
+  CustomModeValues,
+  DEFAULT_CUSTOM_MODE,
+  customModeSchema,
+  deleteCustomMode,
+  loadCustomModes,
+  saveCustomMode,
+  toModeConfig,
+} from '@/lib/customModes';
+
+interface CustomModeBuilderProps {
+  onBack: () => void;
+  onPlay: (mode: CustomModeValues) => void;
+  onShowLeaderboard: (mode: CustomMode) => void;
+  shareUrl: (mode: CustomModeValues) => string;
+}
+
+export const CustomModeBuilder: React.FC<CustomModeBuilderProps> = ({ onBack, onPlay, onShowLeaderboard, shareUrl }) => {
+  const [customModes, setCustomModes] = useState<CustomMode[]>(loadCustomModes);
+  const { settings } = useSettings();
+
+  const form = useForm<CustomModeValues>({
+    resolver: zodResolver(customModeSchema),
+    defaultValues: DEFAULT_CUSTOM_MODE,
+  });
+
+  const saveMode = (values: CustomModeValues) => {
+    const saved = saveCustomMode(values);
+    setCustomModes(loadCustomModes());
+    form.reset(DEFAULT_CUSTOM_MODE);
+    toast.success(`Saved "${saved.name}"`);
+    return saved;
+  };
+
+  const copyLink = async (mode: CustomMode) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(mode));
+      toast.success('Share link copied');
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const removeMode = (mode: CustomMode) => {
+    deleteCustomMode(mode.id);
+    setCustomModes(loadCustomModes());
+  };
+
+  const sliderField = (
+    name: 'timeLimit' | 'enemies' | 'maxSpeed',
+    label: string,
+    { min, max, step, format }: { min: number; max: number; step: number; format: (value: number) => string }
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="flex justify-between">
+            <FormLabel>{label}</FormLabel>
+            <span className="text-sm font-mono text-muted-foreground">{format(field.value)}</span>
+          </div>
+          <FormControl>
+            <Slider
+              value={[field.value]}
+              min={min}
+              max={max}
+              step={step}
+              onValueChange={([value]) => field.onChange(value)}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const switchField = (name: 'hasNitro' | 'hasHealth' | 'aggressiveAI', label: string, description: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <FormLabel>{label}</FormLabel>
+            <FormDescription>{description}</FormDescription>
+          </div>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-game-dark-bg">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <Button
+            onClick={onBack}
+            variant="outline"
+            className="border-game-neon-blue text-game-neon-blue hover:bg-game-neon-blue hover:text-primary-foreground"
+          >
+            ← Back to Menu
+          </Button>
+
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-game-neon-blue via-game-neon-pink to-game-neon-green bg-clip-text text-transparent">
+            🛠 Custom Modes
+          </h1>
+
+          <div className="w-32" />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Builder */}
+          <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+            <CardHeader>
+              <CardTitle className="text-game-neon-green">Build a Mode</CardTitle>
+              <CardDescription>Set your own house rules. Modes with the same rules share a leaderboard.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(saveMode)} className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="Friday Night Gauntlet" maxLength={30} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {sliderField('timeLimit', 'Time Limit', {
+                    min: 0,
+                    max: 600,
+                    step: 10,
+                    format: (value) => formatTimeLimit(value || Infinity),
+                  })}
+                  <FormField
+                    control={form.control}
+                    name="targetScore"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Target Score</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            step={10000}
+                            value={Number.isNaN(field.value) ? '' : field.value}
+                            onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormDescription>0 for no target.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {sliderField('enemies', 'Traffic', { min: 1, max: 20, step: 1, format: (value) => `${value} cars` })}
+                  {sliderField('maxSpeed', 'Top Speed', { min: 8, max: 30, step: 1, format: (value) => formatSpeed(value, settings.units.speed) })}
+                  {switchField('hasNitro', 'Nitro', 'Boost with a recharging nitro tank.')}
+                  {switchField('hasHealth', 'Health', 'Survive several hits instead of one.')}
+                  {switchField('aggressiveAI', 'Aggressive AI', 'Traffic hunts your lane.')}
+
+                  <div className="flex justify-end gap-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={form.handleSubmit((values) => onPlay(saveMode(values)))}
+                    >
+                      Save & Play
+                    </Button>
+                    <Button type="submit" className="bg-game-neon-green hover:bg-game-neon-green/80">
+                      Save Mode
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          {/* Saved modes */}
+          <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+            <CardHeader>
+              <CardTitle className="text-game-neon-pink">Your Modes</CardTitle>
+              <CardDescription>Share a link to challenge friends on the same rules.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {customModes.length === 0 ? (
+                <div className="text-center py-12">
+                  <div className="text-6xl mb-4">🛠</div>
+                  <div className="text-muted-foreground">No custom modes yet. Build one to get started.</div>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {customModes.map((mode) => {
+                    const config = toModeConfig(mode);
+                    return (
+                      <div key={mode.id} className="p-4 rounded-lg border border-border/50 space-y-3">
+                        <div className="flex justify-between items-center">
+                          <div className="font-bold text-foreground">{mode.name}</div>
+                          <span className="font-mono text-xs text-muted-foreground">#{mode.id}</span>
+                        </div>
+                        <div className="flex flex-wrap gap-2 text-xs">
+                          <Badge variant="outline">{formatTimeLimit(config.timeLimit)}</Badge>
+                          <Badge variant="outline">
+                            {config.targetScore === Infinity ? 'No target' : `${config.targetScore.toLocaleString()} pts`}
+                          </Badge>
+                          <Badge variant="outline">{config.enemies} cars</Badge>
+                          <Badge variant="outline">{formatSpeed(config.maxSpeed, settings.units.speed)}</Badge>
+                          {config.hasNitro && <Badge variant="outline" className="text-game-neon-blue">Nitro</Badge>}
+                          {config.hasHealth && <Badge variant="outline" className="text-game-racing-red">Health</Badge>}
+                          {config.aggressiveAI && <Badge variant="outline" className="text-game-neon-yellow">Aggressive AI</Badge>}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          <Button size="sm" className="bg-game-neon-green hover:bg-game-neon-green/80" onClick={() => onPlay(mode)}>
+                            Play
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => onShowLeaderboard(mode)}>
+                            🏆 Leaderboard
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => copyLink(mode)}>
+                            🔗 Copy Link
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-game-racing-red text-game-racing-red hover:bg-game-racing-red hover:text-primary-foreground"
+                            onClick={() => removeMode(mode)}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,15 @@
 import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { createRandom } from '@/lib/random';
 
 interface EnvironmentProps {
   speed: number;
+  seed: number;
+  density?: number; // Fraction of scenery drawn, from the graphics quality
 }
 
-export const Environment3D: React.FC<EnvironmentProps> = ({ speed }) => {
+export const Environment3D: React.FC<EnvironmentProps> = ({ speed, seed, density = 1 }) => {
   const treesRef = useRef<THREE.Group>(null);
   const cloudsRef = useRef<THREE.Group>(null);
   const buildingsRef = useRef<THREE.Group>(null);
@@ -21,6 +24,42 @@ export const Environment3D: React.FC<EnvironmentProps> = ({ speed }) => {
   }), []);
   const buildingMaterial = useMemo(() => new THREE.MeshPhongMaterial({ color: 0x444444 }), []);
 
+  // Scenery layout, generated once per seed
+  const layout = useMemo(() => {
+    const random = createRandom(seed);
+
+    const trees = Array.from({ length: 30 }, (_, i) => ({
+      x: random.range(-20, 20) + (random.next() > 0.5 ? 15 : -15),
+      z: i * 3 - 45,
+      height: random.range(2, 5),
+    }));
+
+    const buildings = Array.from({ length: 15 }, (_, i) => ({
+      x: random.range(-30, 30) + (random.next() > 0.5 ? 25 : -25),
+      z: i * 8 - 60,
+      height: random.range(5, 15),
+      width: random.range(2, 4),
+      depth: random.range(2, 4),
+    }));
+
+    const clouds = Array.from({ length: 8 }, (_, i) => ({
+      x: random.range(-40, 40),
+      y: random.range(8, 13),
+      z: i * 15 - 80,
+    }));
+
+    const lights = Array.from({ length: 20 }, (_, i) => ({
+      x: random.next() > 0.5 ? 6 : -6,
+      z: i * 5 - 50,
+    }));
+
+    // Thin out evenly so the layout for a seed stays the same at every quality
+    const keep = <T,>(items: T[]) =>
+      items.filter((_, i) => Math.floor((i + 1) * density) > Math.floor(i * density));
+
+    return { trees: keep(trees), buildings: keep(buildings), clouds: keep(clouds), lights };
+  }, [seed, density]);
+
   // Animate environment
   useFrame((state, delta) => {
     // Move trees
@@ -52,11 +91,7 @@ export const Environment3D: React.FC<EnvironmentProps> = ({ speed }) => {
     <group>
       {/* Trees */}
       <group ref={treesRef}>
-        {Array.from({ length: 30 }, (_, i) => {
-          const x = (Math.random() - 0.5) * 40 + (Math.random() > 0.5 ? 15 : -15);
-          const z = i * 3 - 45;
-          const height = 2 + Math.random() * 3;
-          
+        {layout.trees.map(({ x, z, height }, i) => {
           return (
             <group key={`tree-${i}`} position={[x, height / 2 - 0.5, z]}>
               {/* Trunk */}
@@ -76,14 +111,10 @@ export const Environment3D: React.FC<EnvironmentProps> = ({ speed }) => {
 
       {/* Buildings in the distance */}
       <group ref={buildingsRef}>
-        {Array.from({ length: 15 }, (_, i) => {
-          const x = (Math.random() - 0.5) * 60 + (Math.random() > 0.5 ? 25 : -25);
-          const z = i * 8 - 60;
-          const height = 5 + Math.random() * 10;
-          
+        {layout.buildings.map(({ x, z, height, width, depth }, i) => {
           return (
             <mesh key={`building-${i}`} position={[x, height / 2 - 0.5, z]}>
-              <boxGeometry args={[2 + Math.random() * 2, height, 2 + Math.random() * 2]} />
+              <boxGeometry args={[width, height, depth]} />
               <primitive object={buildingMaterial} />
             </mesh>
           );
@@ -92,11 +123,7 @@ export const Environment3D: React.FC<EnvironmentProps> = ({ speed }) => {
 
       {/* Clouds */}
       <group ref={cloudsRef}>
-        {Array.from({ length: 8 }, (_, i) => {
-          const x = (Math.random() - 0.5) * 80;
-          const y = 8 + Math.random() * 5;
-          const z = i * 15 - 80;
-          
+        {layout.clouds.map(({ x, y, z }, i) => {
           return (
             <group key={`cloud-${i}`} position={[x, y, z]}>
               <mesh position={[0, 0, 0]}>
@@ -117,10 +144,7 @@ export const Environment3D: React.FC<EnvironmentProps> = ({ speed }) => {
       </group>
 
       {/* Street lights */}
-      {Array.from({ length: 20 }, (_, i) => {
-        const x = Math.random() > 0.5 ? 6 : -6;
-        const z = i * 5 - 50;
-        
+      {layout.lights.map(({ x, z }, i) => {
         return (
           <group key={`light-${i}`} position={[x, 0, z]}>
             {/* Pole */}
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { useTexture } from '@react-three/drei';
+import * as THREE from 'three';
+import finishLine from '@/assets/finish-line.png';
+
+interface FinishLineProps {
+  z: number;
+  label: string;
+}
+
+// Chequered strip across the road under a gantry with the lap banner
+export const FinishLine3D: React.FC<FinishLineProps> = ({ z, label }) => {
+  const texture = useTexture(finishLine);
+
+  const stripTexture = useMemo(() => {
+    const strip = texture.clone();
+    strip.wrapS = THREE.RepeatWrapping;
+    strip.repeat.set(4, 1);
+    strip.needsUpdate = true;
+    return strip;
+  }, [texture]);
+
+  // Banner text drawn once per label
+  const bannerTexture = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 512;
+    canvas.height = 64;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.fillStyle = '#1a1a2e';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.fillStyle = '#ff00ff';
+      ctx.font = 'bold 40px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(label, canvas.width / 2, canvas.height / 2);
+    }
+    return new THREE.CanvasTexture(canvas);
+  }, [label]);
+
+  return (
+    <group position={[0, 0, z]}>
+      {/* Line on the road */}
+      <mesh position={[0, -0.48, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[8, 0.8]} />
+        <meshBasicMaterial map={stripTexture} />
+      </mesh>
+
+      {/* Posts */}
+      {[-4.5, 4.5].map(x => (
+        <mesh key={x} position={[x, 1.25, 0]}>
+          <boxGeometry args={[0.2, 3.5, 0.2]} />
+          <meshPhongMaterial color={0xcccccc} emissive={0x00ffff} emissiveIntensity={0.3} />
+        </mesh>
+      ))}
+
+      {/* Banner */}
+      <mesh position={[0, 3, 0]}>
+        <boxGeometry args={[9.2, 0.8, 0.1]} />
+        <meshBasicMaterial color="#1a1a2e" />
+      </mesh>
+      <mesh position={[0, 3, 0.06]}>
+        <planeGeometry args={[6.4, 0.8]} />
+        <meshBasicMaterial map={bannerTexture} />
+      </mesh>
+    </group>
+  );
+};
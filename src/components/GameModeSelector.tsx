@@ -1,77 +1,37 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { GameMode } from './RacingGame3D';
-
-interface GameModeInfo {
-  mode: GameMode;
-  title: string;
-  description: string;
-  timeLimit: string;
-  difficulty: 'Easy' | 'Medium' | 'Hard' | 'Insane';
-  features: string[];
-  color: string;
-}
-
-const gameModes: GameModeInfo[] = [
-  {
-    mode: 'classic',
-    title: 'Classic Race',
-    description: 'The original racing experience with balanced difficulty.',
-    timeLimit: '90 seconds',
-    difficulty: 'Medium',
-    features: ['Standard AI cars', 'Progressive difficulty', 'Classic scoring'],
-    color: 'game-neon-blue',
-  },
-  {
-    mode: 'timeAttack',
-    title: 'Time Attack',
-    description: 'Race against the clock to achieve the highest score.',
-    timeLimit: '60 seconds',
-    difficulty: 'Hard',
-    features: ['Fast-paced action', 'Score multipliers', 'Precision driving'],
-    color: 'game-neon-yellow',
-  },
-  {
-    mode: 'quickRace',
-    title: 'Quick Race',
-    description: 'Short and intense racing session for quick thrills.',
-    timeLimit: '30 seconds',
-    difficulty: 'Easy',
-    features: ['Quick gameplay', 'Beginner friendly', 'Instant action'],
-    color: 'game-neon-green',
-  },
-  {
-    mode: 'endless',
-    title: 'Endless Highway',
-    description: 'Drive as far as you can on an infinite highway.',
-    timeLimit: 'Unlimited',
-    difficulty: 'Medium',
-    features: ['Endless gameplay', 'Increasing difficulty', 'Survival mode'],
-    color: 'game-neon-pink',
-  },
-  {
-    mode: 'competition',
-    title: 'Competition Mode',
-    description: 'The ultimate challenge with aggressive AI, nitro boosts, and health system.',
-    timeLimit: '2 minutes',
-    difficulty: 'Insane',
-    features: ['Aggressive AI racing', 'Nitro boost system', 'Health & damage system', 'Real-time ranking'],
-    color: 'game-racing-red',
-  },
-];
+import { Difficulty, GameMode, MODES, formatTimeLimit } from '@/lib/modes';
+import { Action, formatKeyCode } from '@/lib/input';
+import { loadBestStars } from '@/lib/missions';
+import { StarRating } from './StarRating';
+import { useSettings } from '@/hooks/use-settings';
 
 interface GameModeSelectorProps {
   onSelectMode: (mode: GameMode) => void;
   onShowLeaderboard: () => void;
+  onShowSettings: () => void;
+  onShowCustomModes: () => void;
+  onShowGarage: () => void;
+  onShowProfile: () => void;
 }
 
 export const GameModeSelector: React.FC<GameModeSelectorProps> = ({ 
   onSelectMode, 
-  onShowLeaderboard 
+  onShowLeaderboard,
+  onShowSettings,
+  onShowCustomModes,
+  onShowGarage,
+  onShowProfile
 }) => {
-  const getDifficultyColor = (difficulty: string) => {
+  const { settings } = useSettings();
+  const [bestStars] = useState(loadBestStars);
+
+  const keyLabel = (...actions: Action[]) =>
+    actions.map(action => settings.controls.keyBindings[action].map(formatKeyCode).join(' / ')).join('  ');
+
+  const getDifficultyColor = (difficulty: Difficulty) => {
     switch (difficulty) {
       case 'Easy': return 'bg-green-500/20 text-green-400 border-green-500/30';
       case 'Medium': return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
@@ -101,7 +61,7 @@ export const GameModeSelector: React.FC<GameModeSelectorProps> = ({
             Choose your racing experience and hit the neon highway
           </p>
           
-          <div className="flex gap-4 justify-center">
+          <div className="flex flex-wrap gap-4 justify-center">
             <Button 
               onClick={onShowLeaderboard}
               variant="outline"
@@ -110,21 +70,43 @@ export const GameModeSelector: React.FC<GameModeSelectorProps> = ({
               🏆 Leaderboard
             </Button>
             <Button 
+              onClick={onShowSettings}
               variant="outline"
               className="border-game-neon-pink text-game-neon-pink hover:bg-game-neon-pink hover:text-primary-foreground"
             >
               ⚙️ Settings
             </Button>
+            <Button 
+              onClick={onShowCustomModes}
+              variant="outline"
+              className="border-game-neon-green text-game-neon-green hover:bg-game-neon-green hover:text-primary-foreground"
+            >
+              🛠 Custom Modes
+            </Button>
+            <Button 
+              onClick={onShowGarage}
+              variant="outline"
+              className="border-game-neon-yellow text-game-neon-yellow hover:bg-game-neon-yellow hover:text-primary-foreground"
+            >
+              🏎 Garage
+            </Button>
+            <Button 
+              onClick={onShowProfile}
+              variant="outline"
+              className="border-game-neon-blue text-game-neon-blue hover:bg-game-neon-blue hover:text-primary-foreground"
+            >
+              👤 Profile
+            </Button>
           </div>
         </div>
 
         {/* Game Modes Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-12">
-          {gameModes.map((gameMode) => (
+          {Object.entries(MODES).filter(([, gameMode]) => gameMode.listed).map(([mode, gameMode]) => (
             <Card 
-              key={gameMode.mode}
+              key={mode}
               className="bg-card/90 backdrop-blur-sm border-border/50 hover:border-game-neon-blue/50 transition-all duration-300 group cursor-pointer transform hover:scale-105"
-              onClick={() => onSelectMode(gameMode.mode)}
+              onClick={() => onSelectMode(mode as GameMode)}
             >
               <CardHeader className="pb-4">
                 <div className="flex justify-between items-start mb-2">
@@ -147,9 +129,18 @@ export const GameModeSelector: React.FC<GameModeSelectorProps> = ({
                 <div className="flex justify-between items-center">
                   <span className="text-sm font-medium text-muted-foreground">Time Limit:</span>
                   <span className={`text-sm font-bold text-${gameMode.color}`}>
-                    {gameMode.timeLimit}
+                    {formatTimeLimit(gameMode.config.timeLimit)}
                   </span>
                 </div>
+
+                {Number.isFinite(gameMode.config.targetScore) && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium text-muted-foreground">
+                      Target: <span className="text-foreground">{gameMode.config.targetScore.toLocaleString()}</span>
+                    </span>
+                    <StarRating stars={bestStars[mode as GameMode] ?? 0} />
+                  </div>
+                )}
                 
                 <div className="space-y-2">
                   <span className="text-sm font-medium text-muted-foreground">Features:</span>
@@ -165,7 +156,7 @@ export const GameModeSelector: React.FC<GameModeSelectorProps> = ({
                 
                 <Button 
                   className={`w-full bg-${gameMode.color}/20 hover:bg-${gameMode.color} text-${gameMode.color} hover:text-primary-foreground border border-${gameMode.color}/30 hover:border-${gameMode.color} transition-all duration-300`}
-                  onClick={() => onSelectMode(gameMode.mode)}
+                  onClick={() => onSelectMode(mode as GameMode)}
                 >
                   Start Race →
                 </Button>
@@ -184,22 +175,24 @@ export const GameModeSelector: React.FC<GameModeSelectorProps> = ({
               <div>
                 <h4 className="font-bold text-game-neon-green mb-3">Controls</h4>
                 <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Steer:</span>
-                    <span className="font-mono text-foreground">← → Arrow Keys</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Accelerate:</span>
-                    <span className="font-mono text-foreground">↑ Arrow Key</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Brake:</span>
-                    <span className="font-mono text-foreground">↓ Arrow Key</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Pause:</span>
-                    <span className="font-mono text-foreground">SPACE</span>
-                  </div>
+                  {([
+                    ['Steer', ['steerLeft', 'steerRight']],
+                    ['Accelerate', ['throttle']],
+                    ['Brake', ['brake']],
+                    ['Nitro', ['nitro']],
+                    ['Pause', ['pause']],
+                  ] as [string, Action[]][]).map(([label, actions]) => (
+                    <div key={label} className="flex justify-between">
+                      <span className="text-muted-foreground">{label}:</span>
+                      <span className="font-mono text-foreground">{keyLabel(...actions)}</span>
+                    </div>
+                  ))}
+                  {settings.controls.gamepadEnabled && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Gamepad:</span>
+                      <span className="font-mono text-foreground">Stick · RT / LT · A</span>
+                    </div>
+                  )}
                 </div>
               </div>
               
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { toast } from '@/components/ui/sonner';
+import { CarPreview3D } from './CarPreview3D';
+import { loadProfile } from '@/lib/profile';
+import {
+  CARS,
+  CAR_IDS,
+  CarId,
+  CarStats,
+  STAT_LABELS,
+  STAT_MAX,
+  countStars,
+  isCarUnlocked,
+  loadSelectedCar,
+  saveSelectedCar,
+} from '@/lib/garage';
+
+interface GarageProps {
+  onBack: () => void;
+  onShowPaintShop: () => void;
+}
+
+export const Garage: React.FC<GarageProps> = ({ onBack, onShowPaintShop }) => {
+  const [stars] = useState(countStars);
+  const [{ paint }] = useState(loadProfile);
+  const [selected, setSelected] = useState<CarId>(loadSelectedCar);
+  const [api, setApi] = useState<CarouselApi>();
+  const [focused, setFocused] = useState(() => CAR_IDS.indexOf(selected));
+
+  // The preview follows whichever car the carousel is showing
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setFocused(api.selectedScrollSnap());
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  const selectCar = (car: CarId) => {
+    saveSelectedCar(car);
+    setSelected(car);
+    toast.success(`${CARS[car].name} is ready to race`);
+  };
+
+  const focusedCar = CARS[CAR_IDS[focused]];
+
+  return (
+    <div className="min-h-screen bg-game-dark-bg">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <Button
+            onClick={onBack}
+            variant="outline"
+            className="border-game-neon-blue text-game-neon-blue hover:bg-game-neon-blue hover:text-primary-foreground"
+          >
+            ← Back to Menu
+          </Button>
+
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-game-neon-blue via-game-neon-pink to-game-neon-green bg-clip-text text-transparent">
+            🏎 Garage
+          </h1>
+
+          <div className="w-32 text-right text-game-neon-yellow font-bold">★ {stars}</div>
+        </div>
+
+        <CarPreview3D body={focusedCar.body} paint={paint} className="h-64" />
+
+        <div className="flex justify-center mb-6">
+          <Button
+            onClick={onShowPaintShop}
+            variant="outline"
+            className="border-game-neon-pink text-game-neon-pink hover:bg-game-neon-pink hover:text-primary-foreground"
+          >
+            🎨 Paint Shop
+          </Button>
+        </div>
+
+        <Carousel setApi={setApi} opts={{ startIndex: focused }} className="mx-12">
+          <CarouselContent>
+            {CAR_IDS.map(car => {
+              const { name, description, stats, unlockStars } = CARS[car];
+              const unlocked = isCarUnlocked(car, stars);
+
+              return (
+                <CarouselItem key={car} className="md:basis-1/2">
+                  <Card className="bg-card/90 backdrop-blur-sm border-border/50 h-full">
+                    <CardHeader>
+                      <div className="flex justify-between items-start">
+                        <CardTitle className={unlocked ? 'text-game-neon-green' : 'text-muted-foreground'}>
+                          {name}
+                        </CardTitle>
+                        {car === selected && (
+                          <Badge variant="outline" className="border-game-neon-green text-game-neon-green">
+                            Selected
+                          </Badge>
+                        )}
+                        {!unlocked && (
+                          <Badge variant="outline" className="border-game-neon-yellow text-game-neon-yellow">
+                            🔒 {unlockStars} ★
+                          </Badge>
+                        )}
+                      </div>
+                      <CardDescription>{description}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {(Object.keys(STAT_LABELS) as (keyof CarStats)[]).map(stat => (
+                        <div key={stat}>
+                          <div className="flex justify-between text-sm mb-1">
+                            <span className="text-muted-foreground">{STAT_LABELS[stat]}</span>
+                            <span className="text-foreground">{stats[stat]}/{STAT_MAX}</span>
+                          </div>
+                          <Progress value={(stats[stat] / STAT_MAX) * 100} className="h-2" />
+                        </div>
+                      ))}
+
+                      <Button
+                        className="w-full"
+                        disabled={!unlocked || car === selected}
+                        onClick={() => selectCar(car)}
+                      >
+                        {unlocked ? (car === selected ? 'Selected' : 'Select') : `Earn ${unlockStars - stars} more ★ to unlock`}
+                      </Button>
+                    </CardContent>
+                  </Card>
+                </CarouselItem>
+              );
+            })}
+          </CarouselContent>
+          <CarouselPrevious />
+          <CarouselNext />
+        </Carousel>
+
+        <p className="text-center text-sm text-muted-foreground mt-6">
+          Earn stars by completing mission targets to unlock faster cars.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/sonner';
+import {
+  ACTIONS,
+  ACTION_LABELS,
+  Action,
+  KeyBindings,
+  MAX_KEYS_PER_ACTION,
+  REQUIRED_ACTIONS,
+  clearKey,
+  formatKeyCode,
+  rebindKey,
+} from '@/lib/input';
+
+interface KeyBindingEditorProps {
+  value: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+}
+
+// Click a slot, then press the key to bind. Backspace clears; clicking
+// anywhere cancels, so any other key (Escape included) can be bound.
+export const KeyBindingEditor: React.FC<KeyBindingEditorProps> = ({ value, onChange }) => {
+  const [capturing, setCapturing] = useState<{ action: Action; slot: number } | null>(null);
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      const next = e.code === 'Backspace'
+        ? clearKey(value, capturing.action, capturing.slot)
+        : rebindKey(value, capturing.action, e.code, capturing.slot);
+      if (next) {
+        onChange(next);
+      } else {
+        toast.error(`${REQUIRED_ACTIONS.map(required => ACTION_LABELS[required]).join(' and ')} each need a key`);
+      }
+      setCapturing(null);
+    };
+    const handlePointerDown = () => setCapturing(null);
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('pointerdown', handlePointerDown);
+    };
+  }, [capturing, value, onChange]);
+
+  return (
+    <div className="space-y-2">
+      {ACTIONS.map(action => (
+        <div key={action} className="flex items-center justify-between gap-4">
+          <span className="text-sm text-muted-foreground">{ACTION_LABELS[action]}</span>
+          <div className="flex gap-2">
+            {Array.from({ length: MAX_KEYS_PER_ACTION }, (_, slot) => {
+              const code = value[action][slot];
+              const isCapturing = capturing?.action === action && capturing.slot === slot;
+              return (
+                <Button
+                  key={slot}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className={`w-24 font-mono ${isCapturing ? 'border-game-neon-yellow text-game-neon-yellow animate-pulse' : ''}`}
+                  onClick={() => setCapturing({ action, slot: Math.min(slot, value[action].length) })}
+                >
+                  {isCapturing ? 'Press key' : code ? formatKeyCode(code) : '—'}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -3,85 +3,36 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { GameMode } from './RacingGame';
-
-interface LeaderboardEntry {
-  id: string;
-  playerName: string;
-  score: number;
-  time: number;
-  mode: GameMode;
-  date: Date;
-  rank: number;
-}
+import { GAME_MODES, GameMode, getMode } from '@/lib/modes';
+import { findCustomMode, parseCustomBoardId } from '@/lib/customModes';
+import {
+  LeaderboardData,
+  clearLeaderboard as clearSavedLeaderboard,
+  createEmptyLeaderboard,
+  loadLeaderboard,
+  loadPlayerName,
+  savePlayerName,
+} from '@/lib/leaderboard';
+import { countGamesPlayed, loadProfile } from '@/lib/profile';
 
 interface LeaderboardProps {
+  board: string; // A built-in mode, or a custom mode's board id
+  onBoardChange: (board: string) => void;
   onBack: () => void;
+  onWatchReplay?: (replayId: string) => void;
 }
 
-export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
-  const [leaderboardData, setLeaderboardData] = useState<{[key in GameMode]: LeaderboardEntry[]}>({
-    classic: [],
-    timeAttack: [],
-    quickRace: [],
-    endless: [],
-    competition: [],
-  });
+export const Leaderboard: React.FC<LeaderboardProps> = ({ board: selectedBoard, onBoardChange, onBack, onWatchReplay }) => {
+  const [leaderboardData, setLeaderboardData] = useState<LeaderboardData>(createEmptyLeaderboard);
 
   const [playerName, setPlayerName] = useState('');
+  const [{ career }] = useState(loadProfile);
 
   useEffect(() => {
-    // Load leaderboard data from localStorage
-    const loadLeaderboard = () => {
-      try {
-        const saved = localStorage.getItem('neonDashLeaderboard');
-        if (saved) {
-          const data = JSON.parse(saved);
-          setLeaderboardData(data);
-        }
-      } catch (error) {
-        console.error('Failed to load leaderboard:', error);
-      }
-    };
-
-    loadLeaderboard();
-
-    // Load player name
-    const savedName = localStorage.getItem('neonDashPlayerName');
-    if (savedName) {
-      setPlayerName(savedName);
-    }
+    setLeaderboardData(loadLeaderboard());
+    setPlayerName(loadPlayerName());
   }, []);
 
-  const addScore = (mode: GameMode, score: number, time: number) => {
-    const newEntry: LeaderboardEntry = {
-      id: Date.now().toString(),
-      playerName: playerName || 'Anonymous',
-      score,
-      time,
-      mode,
-      date: new Date(),
-      rank: 0,
-    };
-
-    setLeaderboardData(prev => {
-      const newData = { ...prev };
-      newData[mode] = [...newData[mode], newEntry]
-        .sort((a, b) => b.score - a.score)
-        .slice(0, 10)
-        .map((entry, index) => ({ ...entry, rank: index + 1 }));
-
-      // Save to localStorage
-      try {
-        localStorage.setItem('neonDashLeaderboard', JSON.stringify(newData));
-      } catch (error) {
-        console.error('Failed to save leaderboard:', error);
-      }
-
-      return newData;
-    });
-  };
-
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
     const seconds = Math.floor(time % 60);
@@ -93,28 +44,21 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
     return new Date(date).toLocaleDateString();
   };
 
-  const getModeColor = (mode: GameMode) => {
-    switch (mode) {
-      case 'classic': return 'text-game-neon-blue';
-      case 'timeAttack': return 'text-game-neon-yellow';
-      case 'quickRace': return 'text-game-neon-green';
-      case 'endless': return 'text-game-neon-pink';
-      case 'competition': return 'text-game-racing-red';
-      default: return 'text-foreground';
-    }
-  };
+  // Built-in tabs, plus the custom mode being viewed
+  const customModeId = parseCustomBoardId(selectedBoard);
+  const boards: string[] = customModeId ? [...GAME_MODES, selectedBoard] : GAME_MODES;
 
-  const getModeTitle = (mode: GameMode) => {
-    switch (mode) {
-      case 'classic': return 'Classic Race';
-      case 'timeAttack': return 'Time Attack';
-      case 'quickRace': return 'Quick Race';
-      case 'endless': return 'Endless Highway';
-      case 'competition': return 'Competition';
-      default: return mode;
-    }
+  const getBoardMode = (board: string): GameMode => (parseCustomBoardId(board) ? 'custom' : board as GameMode);
+
+  const getBoardTitle = (board: string) => {
+    const id = parseCustomBoardId(board);
+    return id ? findCustomMode(id)?.name ?? getMode('custom').title : getMode(board as GameMode).title;
   };
 
+  const getEntries = (board: string) => leaderboardData[board] ?? [];
+
+  const getModeColor = (board: string) => `text-${getMode(getBoardMode(board)).color}`;
+
   const getRankColor = (rank: number) => {
     switch (rank) {
       case 1: return 'text-yellow-400';
@@ -134,14 +78,8 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
   };
 
   const clearLeaderboard = () => {
-    setLeaderboardData({
-      classic: [],
-      timeAttack: [],
-      quickRace: [],
-      endless: [],
-      competition: [],
-    });
-    localStorage.removeItem('neonDashLeaderboard');
+    clearSavedLeaderboard();
+    setLeaderboardData(createEmptyLeaderboard());
   };
 
   return (
@@ -183,7 +121,7 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
                 value={playerName}
                 onChange={(e) => {
                   setPlayerName(e.target.value);
-                  localStorage.setItem('neonDashPlayerName', e.target.value);
+                  savePlayerName(e.target.value);
                 }}
                 placeholder="Enter your name"
                 className="bg-background border border-border rounded px-3 py-2 text-foreground flex-1 max-w-sm"
@@ -193,34 +131,34 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
         </Card>
 
         {/* Leaderboard Tabs */}
-        <Tabs defaultValue="classic" className="w-full">
-          <TabsList className="grid w-full grid-cols-5 mb-8">
-            {Object.keys(leaderboardData).map((mode) => (
+        <Tabs value={selectedBoard} onValueChange={onBoardChange} className="w-full">
+          <TabsList className="flex w-full mb-8">
+            {boards.map((board) => (
               <TabsTrigger 
-                key={mode} 
-                value={mode}
-                className={`${getModeColor(mode as GameMode)} data-[state=active]:bg-primary/20`}
+                key={board} 
+                value={board}
+                className={`flex-1 ${getModeColor(board)} data-[state=active]:bg-primary/20`}
               >
-                {getModeTitle(mode as GameMode)}
+                {getBoardTitle(board)}
               </TabsTrigger>
             ))}
           </TabsList>
 
-          {Object.entries(leaderboardData).map(([mode, entries]) => (
-            <TabsContent key={mode} value={mode}>
+          {boards.map((board) => (
+            <TabsContent key={board} value={board}>
               <Card className="bg-card/90 backdrop-blur-sm border-border/50">
                 <CardHeader>
                   <div className="flex justify-between items-center">
-                    <CardTitle className={`${getModeColor(mode as GameMode)} text-2xl`}>
-                      {getModeTitle(mode as GameMode)} - Top 10
+                    <CardTitle className={`${getModeColor(board)} text-2xl`}>
+                      {getBoardTitle(board)} - Top 10
                     </CardTitle>
                     <Badge variant="outline" className="text-muted-foreground">
-                      {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+                      {getEntries(board).length} {getEntries(board).length === 1 ? 'entry' : 'entries'}
                     </Badge>
                   </div>
                 </CardHeader>
                 <CardContent>
-                  {entries.length === 0 ? (
+                  {getEntries(board).length === 0 ? (
                     <div className="text-center py-12">
                       <div className="text-6xl mb-4">🏁</div>
                       <div className="text-xl text-muted-foreground mb-2">No scores yet!</div>
@@ -228,7 +166,7 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
                     </div>
                   ) : (
                     <div className="space-y-3">
-                      {entries.map((entry, index) => (
+                      {getEntries(board).map((entry, index) => (
                         <div 
                           key={entry.id}
                           className={`flex items-center justify-between p-4 rounded-lg border transition-all duration-300 hover:scale-105 ${
@@ -249,12 +187,24 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
                             </div>
                           </div>
                           
-                          <div className="text-right">
-                            <div className={`text-xl font-bold ${getModeColor(mode as GameMode)}`}>
-                              {entry.score.toLocaleString()} pts
-                            </div>
-                            <div className="text-sm text-muted-foreground">
-                              Time: {formatTime(entry.time)}
+                          <div className="flex items-center gap-4">
+                            {entry.replayId && onWatchReplay && (
+                              <Button
+                                onClick={() => onWatchReplay(entry.replayId)}
+                                variant="outline"
+                                size="sm"
+                                className="border-game-neon-pink text-game-neon-pink hover:bg-game-neon-pink hover:text-primary-foreground"
+                              >
+                                ▶ Replay
+                              </Button>
+                            )}
+                            <div className="text-right">
+                              <div className={`text-xl font-bold ${getModeColor(board)}`}>
+                                {entry.score.toLocaleString()} pts
+                              </div>
+                              <div className="text-sm text-muted-foreground">
+                                Time: {formatTime(entry.time)}
+                              </div>
                             </div>
                           </div>
                         </div>
@@ -275,7 +225,7 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-foreground">
-                {Object.values(leaderboardData).reduce((sum, entries) => sum + entries.length, 0)}
+                {countGamesPlayed(career)}
               </div>
             </CardContent>
           </Card>
@@ -302,8 +252,8 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
               <div className="text-xl font-bold text-foreground">
                 {Object.entries(leaderboardData)
                   .sort((a, b) => b[1].length - a[1].length)[0]?.[0] 
-                  ? getModeTitle(Object.entries(leaderboardData)
-                      .sort((a, b) => b[1].length - a[1].length)[0][0] as GameMode)
+                  ? getBoardTitle(Object.entries(leaderboardData)
+                      .sort((a, b) => b[1].length - a[1].length)[0][0])
                   : 'None'
                 }
               </div>
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { toast } from '@/components/ui/sonner';
+import { CarPreview3D } from './CarPreview3D';
+import { getCar, loadSelectedCar } from '@/lib/garage';
+import {
+  DEFAULT_PAINT,
+  NEON_COLORS,
+  NEON_COLOR_NAMES,
+  PAINT_SWATCHES,
+  Paint,
+  RIM_LABELS,
+  RIM_STYLES,
+  RimStyle,
+  SPOILER_CHOICES,
+  SPOILER_LABELS,
+  SpoilerChoice,
+} from '@/lib/paint';
+import { loadProfile, updateProfile } from '@/lib/profile';
+import { cn } from '@/lib/utils';
+
+interface PaintShopProps {
+  onBack: () => void;
+}
+
+export const PaintShop: React.FC<PaintShopProps> = ({ onBack }) => {
+  const [car] = useState(loadSelectedCar);
+  const [paint, setPaint] = useState<Paint>(() => loadProfile().paint);
+
+  const change = (changes: Partial<Paint>) => setPaint(current => ({ ...current, ...changes }));
+
+  const savePaint = () => {
+    updateProfile(() => ({ paint }));
+    toast.success('Paint job saved');
+  };
+
+  const colorPicker = (name: 'body' | 'accent', label: string) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="flex flex-wrap items-center gap-2">
+        {PAINT_SWATCHES.map(swatch => (
+          <button
+            key={swatch}
+            type="button"
+            aria-label={swatch}
+            onClick={() => change({ [name]: swatch })}
+            className={cn(
+              'w-8 h-8 rounded-full border-2 transition-transform hover:scale-110',
+              paint[name].toLowerCase() === swatch ? 'border-foreground scale-110' : 'border-border/50'
+            )}
+            style={{ backgroundColor: swatch }}
+          />
+        ))}
+        <input
+          type="color"
+          aria-label={`Custom ${label.toLowerCase()}`}
+          value={paint[name]}
+          onChange={(e) => change({ [name]: e.target.value })}
+          className="w-8 h-8 rounded cursor-pointer bg-transparent"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-game-dark-bg">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <Button
+            onClick={onBack}
+            variant="outline"
+            className="border-game-neon-blue text-game-neon-blue hover:bg-game-neon-blue hover:text-primary-foreground"
+          >
+            ← Back to Garage
+          </Button>
+
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-game-neon-blue via-game-neon-pink to-game-neon-green bg-clip-text text-transparent">
+            🎨 Paint Shop
+          </h1>
+
+          <div className="w-32" />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+            <CardHeader>
+              <CardTitle className="text-game-neon-green">{getCar(car).name}</CardTitle>
+              <CardDescription>Changes show here as you make them.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CarPreview3D body={getCar(car).body} paint={paint} className="h-80" />
+            </CardContent>
+          </Card>
+
+          <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+            <CardHeader>
+              <CardTitle className="text-game-neon-pink">Customize</CardTitle>
+              <CardDescription>Your paint job follows you into every car.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {colorPicker('body', 'Body Colour')}
+              {colorPicker('accent', 'Accent Colour')}
+
+              <div className="space-y-2">
+                <Label>Rims</Label>
+                <ToggleGroup
+                  type="single"
+                  value={paint.rims}
+                  onValueChange={(value) => value && change({ rims: value as RimStyle })}
+                  className="justify-start flex-wrap"
+                >
+                  {RIM_STYLES.map(style => (
+                    <ToggleGroupItem key={style} value={style} size="sm">
+                      {RIM_LABELS[style]}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Spoiler</Label>
+                <ToggleGroup
+                  type="single"
+                  value={paint.spoiler}
+                  onValueChange={(value) => value && change({ spoiler: value as SpoilerChoice })}
+                  className="justify-start flex-wrap"
+                >
+                  {SPOILER_CHOICES.map(choice => (
+                    <ToggleGroupItem key={choice} value={choice} size="sm">
+                      {SPOILER_LABELS[choice]}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Underglow</Label>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={paint.underglow === null ? 'secondary' : 'outline'}
+                    onClick={() => change({ underglow: null })}
+                  >
+                    Off
+                  </Button>
+                  {NEON_COLOR_NAMES.map(neon => (
+                    <Button
+                      key={neon}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => change({ underglow: neon })}
+                      className={cn(`border-game-${neon} text-game-${neon}`, paint.underglow === neon && `bg-game-${neon}/20`)}
+                      style={{ boxShadow: paint.underglow === neon ? `0 0 12px ${NEON_COLORS[neon]}` : undefined }}
+                    >
+                      {neon.replace('-', ' ')}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-4">
+                <Button type="button" variant="outline" onClick={() => setPaint(DEFAULT_PAINT)}>
+                  Reset
+                </Button>
+                <Button type="button" onClick={savePaint}>
+                  Save Paint Job
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { GameMode, MODES } from '@/lib/modes';
+import { loadPlayerName } from '@/lib/leaderboard';
+import { countGamesPlayed, levelForXp, loadProfile, xpForLevel } from '@/lib/profile';
+import { formatDistance } from '@/lib/units';
+import { useSettings } from '@/hooks/use-settings';
+
+interface PlayerProfileProps {
+  onBack: () => void;
+  onShowAchievements: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${Math.floor(seconds % 60)}s` : `${seconds.toFixed(1)}s`;
+};
+
+export const PlayerProfile: React.FC<PlayerProfileProps> = ({ onBack, onShowAchievements }) => {
+  const { settings } = useSettings();
+  const [{ career }] = useState(loadProfile);
+  const [playerName] = useState(loadPlayerName);
+
+  const level = levelForXp(career.xp);
+  const levelStart = xpForLevel(level);
+  const levelEnd = xpForLevel(level + 1);
+
+  const stats: [string, string, string][] = [
+    ['Games Played', countGamesPlayed(career).toLocaleString(), 'text-game-neon-blue'],
+    ['Total Distance', formatDistance(career.distance, settings.units.distance), 'text-game-neon-green'],
+    ['Collisions', career.collisions.toLocaleString(), 'text-game-racing-red'],
+    ['Nitro Used', formatDuration(career.nitroTime), 'text-game-neon-blue'],
+    ['Perfect Driving', formatDuration(career.perfectDriving), 'text-game-neon-pink'],
+    ['Total XP', career.xp.toLocaleString(), 'text-game-neon-yellow'],
+  ];
+
+  return (
+    <div className="min-h-screen bg-game-dark-bg">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <Button
+            onClick={onBack}
+            variant="outline"
+            className="border-game-neon-blue text-game-neon-blue hover:bg-game-neon-blue hover:text-primary-foreground"
+          >
+            ← Back to Menu
+          </Button>
+
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-game-neon-blue via-game-neon-pink to-game-neon-green bg-clip-text text-transparent">
+            👤 Profile
+          </h1>
+
+          <div className="w-32" />
+        </div>
+
+        {/* Level */}
+        <Card className="bg-card/90 backdrop-blur-sm border-border/50 mb-6">
+          <CardHeader>
+            <CardTitle className="text-game-neon-yellow text-3xl">Level {level}</CardTitle>
+            <CardDescription>{playerName || 'Unnamed driver'}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Progress value={((career.xp - levelStart) / (levelEnd - levelStart)) * 100} className="h-3" />
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>{(career.xp - levelStart).toLocaleString()} / {(levelEnd - levelStart).toLocaleString()} XP</span>
+              <span>{(levelEnd - career.xp).toLocaleString()} XP to level {level + 1}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-center mb-6">
+          <Button
+            onClick={onShowAchievements}
+            variant="outline"
+            className="border-game-neon-yellow text-game-neon-yellow hover:bg-game-neon-yellow hover:text-primary-foreground"
+          >
+            🏅 Achievements
+          </Button>
+        </div>
+
+        {/* Career stats */}
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-6 mb-6">
+          {stats.map(([label, value, color]) => (
+            <Card key={label} className="bg-card/90 backdrop-blur-sm border-border/50">
+              <CardHeader>
+                <CardTitle className={color}>{label}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-foreground">{value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Games per mode */}
+        <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+          <CardHeader>
+            <CardTitle className="text-game-neon-blue">Games by Mode</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {(Object.keys(MODES) as GameMode[]).map(mode => (
+              <div key={mode} className="flex justify-between">
+                <span className={`text-${MODES[mode].color}`}>{MODES[mode].title}</span>
+                <span className="font-bold text-foreground">{career.gamesPlayed[mode] ?? 0}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
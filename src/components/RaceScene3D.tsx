@@ -0,0 +1,130 @@
+import React, { useRef, Suspense } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { PerspectiveCamera } from '@react-three/drei';
+import { Car3D } from './Car3D';
+import { Road3D } from './Road3D';
+import { Environment3D } from './Environment3D';
+import { FinishLine3D } from './FinishLine3D';
+import { SimulationState, rivalZ, rivalsOnRoad, trackZ } from '@/lib/simulation';
+import { signalDirection } from '@/lib/drivers';
+import { isParked } from '@/lib/spawner';
+import { CameraView, GRAPHICS_PRESETS } from '@/lib/settings';
+import { CarId, DEFAULT_CAR, getCar } from '@/lib/garage';
+import { DEFAULT_PAINT, Paint, underglowColor, withSpoiler } from '@/lib/paint';
+import { useSettings } from '@/hooks/use-settings';
+import * as THREE from 'three';
+
+interface RaceScene3DProps {
+  state: SimulationState;
+  car?: CarId; // The player's car
+  paint?: Paint;
+  children?: React.ReactNode;
+}
+
+const CAMERA_VIEWS: Record<CameraView, { height: number; distance: number; pitch: number }> = {
+  chase: { height: 2, distance: 3, pitch: 0 },
+  close: { height: 1.1, distance: 1.8, pitch: -0.05 },
+  overhead: { height: 7, distance: 5, pitch: -0.7 },
+};
+
+// Radians of yaw per unit of sideways speed; a sliding car swings its tail out further
+const STEER_YAW = 0.03;
+const SLIDE_YAW = 0.07;
+
+const lineLabel = (line: number, laps: number) => {
+  if (line === 0) return 'START';
+  if (line >= laps) return 'FINISH';
+  return `LAP ${line + 1}`;
+};
+
+// Renders a simulation state. Shared by live play and replay playback.
+export const RaceScene3D: React.FC<RaceScene3DProps> = ({ state, car = DEFAULT_CAR, paint = DEFAULT_PAINT, children }) => {
+  const cameraRef = useRef<THREE.PerspectiveCamera>(null);
+  const { settings } = useSettings();
+  const graphics = GRAPHICS_PRESETS[settings.graphics.quality];
+  const view = CAMERA_VIEWS[settings.camera.view];
+
+  // Nearest start/finish line, ahead or just behind the player
+  const { laps, trackLength } = state.config;
+  const line = Math.min(Math.round(state.position / trackLength), laps);
+  const lineZ = trackZ(state.position, line * trackLength);
+
+  return (
+    <Canvas
+      key={settings.graphics.quality}
+      camera={{ position: [0, 3, 5], fov: settings.camera.fov }}
+      dpr={[1, graphics.dpr]}
+      gl={{ antialias: graphics.antialias }}
+      style={{ width: '100%', height: '100%' }}
+    >
+      <Suspense fallback={null}>
+        {/* Lighting */}
+        <ambientLight intensity={0.6} />
+        <directionalLight position={[10, 10, 5]} intensity={1} />
+        <directionalLight position={[-10, 10, 5]} intensity={0.5} />
+
+        {/* Camera */}
+        <PerspectiveCamera 
+          ref={cameraRef}
+          makeDefault 
+          position={[state.playerX * settings.camera.follow, view.height, view.distance]} 
+          rotation={[view.pitch, 0, 0]}
+          fov={settings.camera.fov}
+        />
+
+        {/* Game Environment */}
+        <Road3D speed={state.speed} />
+        <Environment3D speed={state.speed} seed={state.seed} density={graphics.sceneryDensity} />
+
+        {lineZ > -graphics.fogFar && lineZ < view.distance + 5 && (
+          <FinishLine3D z={lineZ} label={lineLabel(line, laps)} />
+        )}
+
+        {/* Player Car */}
+        <Car3D
+          position={[state.playerX, 0, 0]}
+          rotation={[0, -state.lateralVelocity * (state.sliding ? SLIDE_YAW : STEER_YAW), 0]}
+          color={paint.body}
+          accentColor={paint.accent}
+          rimStyle={paint.rims}
+          underglow={underglowColor(paint)}
+          isPlayer={true}
+          body={withSpoiler(getCar(car).body, paint.spoiler)}
+          speed={state.speed}
+        />
+
+        {/* Enemy Cars */}
+        {state.enemies.map((enemy, index) => !isParked(enemy) && (
+          <Car3D
+            key={index}
+            position={[enemy.x, 0, enemy.z]}
+            color={enemy.color}
+            isPlayer={false}
+            speed={enemy.speed}
+            signal={signalDirection(enemy)}
+          />
+        ))}
+
+        {/* Rivals, placed by race distance */}
+        {rivalsOnRoad(state.rivals).map((rival) => {
+          const z = rivalZ(state.position, rival);
+          return z > -graphics.fogFar && z < view.distance + 5 ? (
+            <Car3D
+              key={rival.name}
+              position={[rival.x, 0, z]}
+              color={rival.color}
+              isPlayer={false}
+              speed={rival.speed}
+              signal={signalDirection(rival)}
+            />
+          ) : null;
+        })}
+
+        {children}
+
+        {/* Fog for depth */}
+        <fog attach="fog" args={['#1a1a2e', 10, graphics.fogFar]} />
+      </Suspense>
+    </Canvas>
+  );
+};
@@ -6,8 +6,7 @@ import racingBg from '@/assets/racing-bg.png';
 import raceCar from '@/assets/race-car.png';
 import enemyCars from '@/assets/enemy-cars.png';
 import finishLine from '@/assets/finish-line.png';
-
-export type GameMode = 'classic' | 'timeAttack' | 'quickRace' | 'endless' | 'competition';
+import { GameMode, getModeConfig } from '@/lib/modes';
 
 interface GameState {
   mode: GameMode;
@@ -88,22 +87,6 @@ export const RacingGame: React.FC<RacingGameProps> = ({ mode, onGameEnd, onBack
     loadImages();
   }, []);
 
-  // Game mode configurations
-  const getModeConfig = useCallback((mode: GameMode) => {
-    switch (mode) {
-      case 'timeAttack':
-        return { timeLimit: 60, targetScore: 10000, enemies: 8 };
-      case 'quickRace':
-        return { timeLimit: 30, targetScore: 5000, enemies: 6 };
-      case 'competition':
-        return { timeLimit: 120, targetScore: 25000, enemies: 12 };
-      case 'endless':
-        return { timeLimit: Infinity, targetScore: Infinity, enemies: 10 };
-      default: // classic
-        return { timeLimit: 90, targetScore: 15000, enemies: 8 };
-    }
-  }, []);
-
   // Initialize game
   const initGame = useCallback(() => {
     const config = getModeConfig(mode);
@@ -127,7 +110,7 @@ export const RacingGame: React.FC<RacingGameProps> = ({ mode, onGameEnd, onBack
       roadOffset: 0,
       countdown: 3,
     }));
-  }, [mode, getModeConfig]);
+  }, [mode]);
 
   // Start countdown
   const startCountdown = useCallback(() => {
@@ -276,7 +259,7 @@ export const RacingGame: React.FC<RacingGameProps> = ({ mode, onGameEnd, onBack
         cancelAnimationFrame(gameLoopRef.current);
       }
     };
-  }, [gameState.isPlaying, gameState.isPaused, getModeConfig, onGameEnd]);
+  }, [gameState.isPlaying, gameState.isPaused, onGameEnd]);
 
   // Render game
   useEffect(() => {
@@ -1,375 +1,252 @@
-import React, { useEffect, useRef, useState, useCallback, Suspense } from 'react';
-import { Canvas } from '@react-three/fiber';
-import { PerspectiveCamera, OrbitControls } from '@react-three/drei';
+import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/sonner';
 import { Car3D } from './Car3D';
-import { Road3D } from './Road3D';
-import { Environment3D } from './Environment3D';
-import * as THREE from 'three';
-
-export type GameMode = 'classic' | 'timeAttack' | 'quickRace' | 'endless' | 'competition';
-
-interface GameState {
+import { RaceScene3D } from './RaceScene3D';
+import { TouchControls } from './TouchControls';
+import { StarRating } from './StarRating';
+import {
+  FixedStepClock,
+  SimulationState,
+  TICK_DT,
+  TICK_RATE,
+  advanceFixedSteps,
+  createFixedStepClock,
+  createInitialState,
+  getStandings,
+  interpolateState,
+  trackZ,
+} from '@/lib/simulation';
+import { GameMode, getMode, getModeConfig } from '@/lib/modes';
+import { CustomModeValues, toModeConfig } from '@/lib/customModes';
+import { CarId, DEFAULT_CAR, applyCar, getCar } from '@/lib/garage';
+import { RunReward, loadProfile, recordRun } from '@/lib/profile';
+import { ACHIEVEMENTS, trackAchievements } from '@/lib/achievements';
+import { getStarThresholds, rateScore, saveStarRating } from '@/lib/missions';
+import { formatSeed, randomSeed } from '@/lib/random';
+import { loadPlayerName } from '@/lib/leaderboard';
+import { InputRun, REPLAY_VERSION, Replay, countTicks, quantizeInput, recordInput } from '@/lib/replay';
+import { Action, formatKeyCode, requestTiltPermission } from '@/lib/input';
+import { formatDistance, formatSpeed } from '@/lib/units';
+import { useSettings } from '@/hooks/use-settings';
+import { useGameInput } from '@/hooks/use-game-input';
+import { useTouchControls } from '@/hooks/use-touch-controls';
+import { useGameAudio } from '@/hooks/use-game-audio';
+import { GHOST_MODES, GhostRun, GhostSample, ghostSampleAt, loadGhost, savePersonalBest, traceSample } from '@/lib/ghost';
+
+export interface GameResult {
   mode: GameMode;
+  seed: number;
   score: number;
   time: number;
-  speed: number;
-  position: number;
-  lap: number;
-  isPlaying: boolean;
-  isPaused: boolean;
-  gameOver: boolean;
-  playerX: number;
-  enemies: Array<{ 
-    x: number; 
-    z: number; 
-    speed: number; 
-    lane: number; 
-    color: string;
-    aggressiveness?: number; // Competition mode feature
-  }>;
-  roadOffset: number;
-  countdown: number;
-  nitroBoost: number; // Competition mode feature
-  health: number; // Competition mode feature
-  perfectDriving: number; // Competition mode feature
-  lastCollision: number;
-  competitionRank: number; // Competition mode feature
+  playerName: string;
+  replay: Omit<Replay, 'id'>;
 }
 
 interface RacingGame3DProps {
   mode: GameMode;
-  onGameEnd: (score: number, time: number) => void;
+  custom?: CustomModeValues; // Rules for the 'custom' mode
+  car?: CarId;
+  seed?: number;
+  onGameEnd: (result: GameResult) => void;
   onBack: () => void;
 }
 
-const LANES = [-2, 0, 2];
-const LANE_WIDTH = 2;
-const ENEMY_COLORS = ['#ff4444', '#44ff44', '#4444ff', '#ffff44', '#ff44ff', '#44ffff'];
+// World units either side of the player within which the ghost car is drawn
+const GHOST_VISIBLE_RANGE = 40;
+// Seconds the last lap's split stays on the HUD
+const SPLIT_DISPLAY_TIME = 4;
 
-export const RacingGame3D: React.FC<RacingGame3DProps> = ({ mode, onGameEnd, onBack }) => {
+const configFor = (mode: GameMode, custom: CustomModeValues | undefined, car: CarId) =>
+  applyCar(custom ? toModeConfig(custom) : getModeConfig(mode), car);
+
+export const RacingGame3D: React.FC<RacingGame3DProps> = ({ mode, custom, car = DEFAULT_CAR, seed, onGameEnd, onBack }) => {
   const gameLoopRef = useRef<number>();
-  const keysRef = useRef<Set<string>>(new Set());
-  const cameraRef = useRef<THREE.PerspectiveCamera>(null);
+  const countdownRef = useRef<ReturnType<typeof setInterval>>();
+  const nitroActiveRef = useRef(false);
+  const audio = useGameAudio();
+  const inputsRef = useRef<InputRun[]>([]);
+  const traceRef = useRef<GhostSample[]>([]);
+  const { settings } = useSettings();
+  const { pauseOnBlur, touchControls, tiltSteering } = settings.controls;
+  const showTouchControls = useTouchControls(touchControls);
+  // Built once for the first render; initGame replaces it on mount
+  const [initialClock] = useState(() =>
+    createFixedStepClock(createInitialState(mode, seed ?? randomSeed(), configFor(mode, custom, car)))
+  );
+  const clockRef = useRef<FixedStepClock>(initialClock);
   
-  const [gameState, setGameState] = useState<GameState>({
-    mode,
-    score: 0,
-    time: 0,
-    speed: 5,
-    position: 0,
-    lap: 1,
-    isPlaying: false,
-    isPaused: false,
-    gameOver: false,
-    playerX: 0,
-    enemies: [],
-    roadOffset: 0,
-    countdown: 3,
-    nitroBoost: 100,
-    health: 100,
-    perfectDriving: 0,
-    lastCollision: 0,
-    competitionRank: 1,
-  });
-
-  // Game mode configurations
-  const getModeConfig = useCallback((mode: GameMode) => {
-    switch (mode) {
-      case 'timeAttack':
-        return { 
-          timeLimit: 60, 
-          targetScore: 10000, 
-          enemies: 8, 
-          maxSpeed: 15,
-          hasNitro: false,
-          hasHealth: false,
-          aggressiveAI: false
-        };
-      case 'quickRace':
-        return { 
-          timeLimit: 30, 
-          targetScore: 5000, 
-          enemies: 6, 
-          maxSpeed: 12,
-          hasNitro: false,
-          hasHealth: false,
-          aggressiveAI: false
-        };
-      case 'competition':
-        return { 
-          timeLimit: 120, 
-          targetScore: 25000, 
-          enemies: 15, 
-          maxSpeed: 20,
-          hasNitro: true,
-          hasHealth: true,
-          aggressiveAI: true
-        };
-      case 'endless':
-        return { 
-          timeLimit: Infinity, 
-          targetScore: Infinity, 
-          enemies: 10, 
-          maxSpeed: 18,
-          hasNitro: false,
-          hasHealth: false,
-          aggressiveAI: false
-        };
-      default: // classic
-        return { 
-          timeLimit: 90, 
-          targetScore: 15000, 
-          enemies: 8, 
-          maxSpeed: 15,
-          hasNitro: false,
-          hasHealth: false,
-          aggressiveAI: false
-        };
-    }
-  }, []);
+  const [gameState, setGameState] = useState<SimulationState>(initialClock.state);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [countdown, setCountdown] = useState(3);
+  const [isCountingDown, setIsCountingDown] = useState(false);
+  const [playerName, setPlayerName] = useState(loadPlayerName);
+  const [ghost, setGhost] = useState<GhostRun | null>(null);
+  const [isNewBest, setIsNewBest] = useState(false);
+  const [isNewBestRating, setIsNewBestRating] = useState(false);
+  const [{ paint }] = useState(loadProfile);
+  const [reward, setReward] = useState<RunReward | null>(null);
 
   // Initialize game
-  const initGame = useCallback(() => {
-    const config = getModeConfig(mode);
-    setGameState(prev => ({
-      ...prev,
-      score: 0,
-      time: 0,
-      speed: 5,
-      position: 0,
-      lap: 1,
-      isPlaying: false,
-      isPaused: false,
-      gameOver: false,
-      playerX: 0,
-      enemies: Array.from({ length: config.enemies }, (_, i) => ({
-        x: LANES[Math.floor(Math.random() * LANES.length)],
-        z: -i * 3 - 5,
-        speed: 3 + Math.random() * 2,
-        lane: Math.floor(Math.random() * LANES.length),
-        color: ENEMY_COLORS[Math.floor(Math.random() * ENEMY_COLORS.length)],
-        aggressiveness: config.aggressiveAI ? Math.random() * 0.5 + 0.5 : 0.2,
-      })),
-      roadOffset: 0,
-      countdown: 3,
-      nitroBoost: 100,
-      health: 100,
-      perfectDriving: 0,
-      lastCollision: 0,
-      competitionRank: 1,
-    }));
-  }, [mode, getModeConfig]);
+  const initGame = useCallback((runSeed: number) => {
+    clockRef.current = createFixedStepClock(
+      createInitialState(mode, runSeed, configFor(mode, custom, car))
+    );
+    inputsRef.current = [];
+    traceRef.current = [traceSample(clockRef.current.state)];
+    setGhost(GHOST_MODES.includes(mode) ? loadGhost(mode) : null);
+    setIsNewBest(false);
+    setIsNewBestRating(false);
+    setReward(null);
+    setGameState(clockRef.current.state);
+    setIsPlaying(false);
+    setIsPaused(false);
+    setCountdown(3);
+    clearInterval(countdownRef.current);
+    countdownRef.current = undefined;
+    setIsCountingDown(false);
+  }, [mode, custom, car]);
 
   // Start countdown
   const startCountdown = useCallback(() => {
+    if (countdownRef.current) return;
+
     let count = 3;
-    const countdownInterval = setInterval(() => {
-      setGameState(prev => ({ ...prev, countdown: count }));
+    setIsCountingDown(true);
+    countdownRef.current = setInterval(() => {
+      setCountdown(count);
+      audio.playBeep(count === 0);
       count--;
       if (count < 0) {
-        clearInterval(countdownInterval);
-        setGameState(prev => ({ ...prev, isPlaying: true, countdown: 0 }));
+        clearInterval(countdownRef.current);
+        countdownRef.current = undefined;
+        setIsCountingDown(false);
+        setIsPlaying(true);
+        setCountdown(0);
       }
     }, 1000);
-  }, []);
+  }, [audio]);
+
+  useEffect(() => () => clearInterval(countdownRef.current), []);
 
   // Input handling
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      keysRef.current.add(e.code);
-      if (e.code === 'Space') {
-        e.preventDefault();
-        if (!gameState.isPlaying && !gameState.gameOver) {
-          startCountdown();
-        } else if (gameState.isPlaying) {
-          setGameState(prev => ({ ...prev, isPaused: !prev.isPaused }));
-        }
-      }
-      if (e.code === 'Escape') {
-        onBack();
+  const handleAction = useCallback((action: Action) => {
+    if (action === 'pause') {
+      // Browsers only start audio from a key press or tap
+      audio.resume();
+      if (!isPlaying && !gameState.gameOver) {
+        startCountdown();
+      } else if (isPlaying) {
+        setIsPaused(prev => !prev);
       }
-    };
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      keysRef.current.delete(e.code);
-    };
+    }
+    if (action === 'back') {
+      onBack();
+    }
+  }, [isPlaying, gameState.gameOver, startCountdown, onBack, audio]);
 
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
+  const { readInput, setTouchInput, keyBindings } = useGameInput(handleAction);
 
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, [gameState.isPlaying, gameState.gameOver, startCountdown, onBack]);
+  // A tap is the user gesture iOS needs before it reports device tilt
+  const handleTap = () => {
+    if (tiltSteering && !isPlaying) {
+      requestTiltPermission();
+    }
+    handleAction('pause');
+  };
 
-  // Game loop
+  // Pause when the window loses focus
   useEffect(() => {
-    if (!gameState.isPlaying || gameState.isPaused) return;
-
-    const gameLoop = () => {
-      setGameState(prev => {
-        const config = getModeConfig(prev.mode);
-        let newState = { ...prev };
-
-        // Update time
-        newState.time += 1/60;
+    const handleBlur = () => {
+      if (pauseOnBlur && isPlaying) {
+        setIsPaused(true);
+      }
+    };
 
-        // Handle input
-        let newPlayerX = prev.playerX;
-        let newSpeed = prev.speed;
-        let usedNitro = false;
+    window.addEventListener('blur', handleBlur);
+    return () => window.removeEventListener('blur', handleBlur);
+  }, [pauseOnBlur, isPlaying]);
 
-        if (keysRef.current.has('ArrowLeft') && newPlayerX > -4) {
-          newPlayerX -= 0.1;
-        }
-        if (keysRef.current.has('ArrowRight') && newPlayerX < 4) {
-          newPlayerX += 0.1;
-        }
-        if (keysRef.current.has('ArrowUp')) {
-          newSpeed = Math.min(newSpeed + 0.3, config.maxSpeed);
-        } else if (keysRef.current.has('ArrowDown')) {
-          newSpeed = Math.max(newSpeed - 0.5, 2);
-        } else {
-          newSpeed = Math.max(newSpeed - 0.1, 5);
-        }
+  // Sound follows the race: silent while paused, engine and music only while racing
+  useEffect(() => {
+    if (isPaused) {
+      audio.suspend();
+    } else if (isPlaying) {
+      audio.resume();
+    }
+  }, [isPaused, isPlaying, audio]);
 
-        // Nitro boost (Competition mode)
-        if (config.hasNitro && keysRef.current.has('ShiftLeft') && prev.nitroBoost > 0) {
-          newSpeed = Math.min(newSpeed + 0.8, config.maxSpeed + 5);
-          newState.nitroBoost = Math.max(prev.nitroBoost - 0.5, 0);
-          usedNitro = true;
-        } else if (config.hasNitro && !usedNitro) {
-          newState.nitroBoost = Math.min(prev.nitroBoost + 0.1, 100);
-        }
+  useEffect(() => {
+    audio.setRacing(isPlaying);
+  }, [isPlaying, audio]);
 
-        newState.playerX = newPlayerX;
-        newState.speed = newSpeed;
-        newState.position += newSpeed;
-        newState.roadOffset = (newState.roadOffset + newSpeed) % 10;
+  // Game loop
+  useEffect(() => {
+    if (!isPlaying || isPaused) return;
 
-        // Update perfect driving score
-        if (Math.abs(newPlayerX) < 1 && newSpeed > config.maxSpeed * 0.8) {
-          newState.perfectDriving += 1;
-        }
+    let lastFrame: number | null = null;
 
-        // Update enemies with AI
-        newState.enemies = prev.enemies.map((enemy, index) => {
-          let newZ = enemy.z + enemy.speed;
-          let newX = enemy.x;
-          let newLane = enemy.lane;
-
-          // Respawn enemy if too far ahead
-          if (newZ > 15) {
-            newZ = -20 - Math.random() * 10;
-            newLane = Math.floor(Math.random() * LANES.length);
-            newX = LANES[newLane];
-            return {
-              ...enemy,
-              x: newX,
-              z: newZ,
-              lane: newLane,
-              speed: 3 + Math.random() * 3,
-              color: ENEMY_COLORS[Math.floor(Math.random() * ENEMY_COLORS.length)],
-            };
-          }
-
-          // Competition mode: Aggressive AI
-          if (config.aggressiveAI && enemy.aggressiveness) {
-            const distanceToPlayer = Math.abs(newZ - 0);
-            if (distanceToPlayer < 5 && Math.random() < enemy.aggressiveness * 0.1) {
-              // Try to block player
-              const playerLane = Math.round((newPlayerX + 2) / 2);
-              if (Math.abs(enemy.lane - playerLane) === 1) {
-                newLane = playerLane;
-                newX = LANES[newLane];
-              }
-            }
-          }
-
-          return { ...enemy, x: newX, z: newZ, lane: newLane };
-        });
-
-        // Collision detection
-        const playerRect = {
-          x: newPlayerX - 0.4,
-          z: -0.8,
-          width: 0.8,
-          height: 1.6,
-        };
-
-        let collisionDetected = false;
-        for (const enemy of newState.enemies) {
-          const enemyRect = {
-            x: enemy.x - 0.4,
-            z: enemy.z - 0.8,
-            width: 0.8,
-            height: 1.6,
-          };
-
-          if (
-            playerRect.x < enemyRect.x + enemyRect.width &&
-            playerRect.x + playerRect.width > enemyRect.x &&
-            playerRect.z < enemyRect.z + enemyRect.height &&
-            playerRect.z + playerRect.height > enemyRect.z
-          ) {
-            collisionDetected = true;
-            break;
-          }
-        }
+    // Fixed-timestep loop: the simulation ticks at TICK_RATE no matter how
+    // often the display refreshes, and rendering interpolates between ticks.
+    const gameLoop = (now: number) => {
+      const frameTime = lastFrame === null ? 0 : (now - lastFrame) / 1000;
+      lastFrame = now;
 
-        if (collisionDetected) {
-          newState.lastCollision = newState.time;
-          
-          if (config.hasHealth) {
-            // Competition mode: Health system
-            newState.health = Math.max(prev.health - 10, 0);
-            if (newState.health <= 0) {
-              newState.gameOver = true;
-              newState.isPlaying = false;
-            }
-          } else {
-            // Other modes: Instant game over
-            newState.gameOver = true;
-            newState.isPlaying = false;
-          }
-        }
+      const input = quantizeInput(readInput());
+      const { events, ticks, ...clock } = advanceFixedSteps(clockRef.current, input, frameTime, state => {
+        traceRef.current.push(traceSample(state));
+      });
+      clockRef.current = clock;
+      recordInput(inputsRef.current, input, ticks);
 
-        // Update score with bonuses
-        let scoreMultiplier = 1;
-        if (config.hasNitro && usedNitro) scoreMultiplier += 0.5;
-        if (newState.perfectDriving > 60) scoreMultiplier += 0.3; // Perfect driving bonus
-        if (newSpeed > config.maxSpeed * 0.9) scoreMultiplier += 0.2; // High speed bonus
-
-        newState.score += newSpeed * 10 * scoreMultiplier;
-
-        // Competition mode: Calculate rank
-        if (config.aggressiveAI) {
-          const playerProgress = newState.position;
-          let rank = 1;
-          newState.enemies.forEach(enemy => {
-            if (enemy.z > 0) rank++;
-          });
-          newState.competitionRank = Math.min(rank, config.enemies + 1);
-        }
+      const runConfig = clock.state.config;
+      const nitroActive = runConfig.hasNitro && input.nitro && clock.state.nitroBoost > 0;
+      if (nitroActive && !nitroActiveRef.current) {
+        audio.playNitro();
+      }
+      nitroActiveRef.current = nitroActive;
+      audio.setEngine(clock.state.speed / runConfig.maxSpeed);
+      if (events.some(event => event.type === 'collision' && event.impact)) {
+        audio.playCrash();
+      }
+      if (events.some(event => event.type === 'targetReached' || event.type === 'difficulty')) {
+        audio.playBeep(true);
+      }
+      for (const id of trackAchievements(events, clock.state)) {
+        const { icon, title, description } = ACHIEVEMENTS[id];
+        toast.success(`${icon} Achievement unlocked: ${title}`, { description });
+      }
 
-        // Check game end conditions
-        if (config.timeLimit !== Infinity && newState.time >= config.timeLimit) {
-          newState.gameOver = true;
-          newState.isPlaying = false;
+      if (events.some(event => event.type === 'gameOver')) {
+        audio.playGameOver();
+        const { mode: runMode, seed: runSeed, score, time } = clock.state;
+        setReward(recordRun(clock.state));
+        const thresholds = getStarThresholds(runMode, runConfig);
+        if (thresholds && runMode !== 'custom') {
+          setIsNewBestRating(saveStarRating(runMode, rateScore(score, thresholds)));
         }
-
-        if (newState.gameOver) {
-          onGameEnd(newState.score, newState.time);
+        if (GHOST_MODES.includes(runMode)) {
+          setIsNewBest(savePersonalBest({
+            mode: runMode,
+            seed: runSeed,
+            score: Math.floor(score),
+            time,
+            date: new Date().toISOString(),
+            trace: traceRef.current,
+          }));
         }
+        setGameState(clock.state);
+        setIsPlaying(false);
+        return;
+      }
 
-        return newState;
-      });
-
+      setGameState(interpolateState(clock.previous, clock.state, clock.accumulator / TICK_DT));
       gameLoopRef.current = requestAnimationFrame(gameLoop);
     };
 
@@ -380,11 +257,11 @@ export const RacingGame3D: React.FC<RacingGame3DProps> = ({ mode, onGameEnd, onB
         cancelAnimationFrame(gameLoopRef.current);
       }
     };
-  }, [gameState.isPlaying, gameState.isPaused, getModeConfig, onGameEnd]);
+  }, [isPlaying, isPaused, readInput, audio]);
 
   useEffect(() => {
-    initGame();
-  }, [initGame]);
+    initGame(seed ?? randomSeed());
+  }, [initGame, seed]);
 
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
@@ -393,15 +270,62 @@ export const RacingGame3D: React.FC<RacingGame3DProps> = ({ mode, onGameEnd, onB
     return `${minutes}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
   };
 
-  const config = getModeConfig(gameState.mode);
+  const formatDelta = (delta: number) => `${delta < 0 ? '-' : '+'}${Math.abs(delta).toFixed(3)}`;
+
+  const handleSaveScore = (e: React.FormEvent) => {
+    e.preventDefault();
+    const inputs = inputsRef.current;
+    onGameEnd({
+      mode: gameState.mode,
+      seed: gameState.seed,
+      score: gameState.score,
+      time: gameState.time,
+      playerName,
+      replay: {
+        version: REPLAY_VERSION,
+        mode: gameState.mode,
+        custom,
+        car,
+        seed: gameState.seed,
+        ticks: countTicks(inputs),
+        inputs,
+        score: Math.floor(gameState.score),
+        time: gameState.time,
+        date: new Date().toISOString(),
+      },
+    });
+  };
+
+  const { config } = gameState;
+  const starThresholds = getStarThresholds(gameState.mode, config);
+  const stars = starThresholds ? rateScore(gameState.score, starThresholds) : 0;
+
+  // Last split against the best lap before it
+  const { lap, lapTimes } = gameState;
+  const lastSplit = lapTimes.length > 0 ? lapTimes[lapTimes.length - 1] : null;
+  const previousBest = lapTimes.length > 1 ? Math.min(...lapTimes.slice(0, -1)) : null;
+  const showSplit = lastSplit !== null && gameState.time - gameState.lapStartTime < SPLIT_DISPLAY_TIME;
+
+  // Competition standings and the gap to the car ahead
+  const standings = gameState.rivals.length > 0 ? getStandings(gameState, playerName.trim() || 'You') : [];
+  const carAhead = gameState.competitionRank > 1 ? standings[gameState.competitionRank - 2] : null;
+
+  const keyLabel = (action: Action) =>
+    keyBindings[action].length > 0 ? formatKeyCode(keyBindings[action][0]) : '—';
+
+  // Personal-best ghost at the same point in time as the live car
+  const ghostSample = ghost ? ghostSampleAt(ghost.trace, gameState.time * TICK_RATE) : null;
+  const ghostDelta = ghostSample ? gameState.position - ghostSample.position : null;
+  const ghostZ = ghostSample ? trackZ(gameState.position, ghostSample.position) : 0;
 
   return (
-    <div className="min-h-screen bg-game-dark-bg flex flex-col">
+    <div className="min-h-[100dvh] bg-game-dark-bg flex flex-col">
       {/* Top HUD */}
-      <div className="p-4 flex justify-between items-center">
+      <div className="p-2 md:p-4 flex justify-between items-center gap-2">
         <Button 
           onClick={onBack}
           variant="outline"
+          size={showTouchControls ? 'sm' : 'default'}
           className="border-game-neon-blue text-game-neon-blue hover:bg-game-neon-blue hover:text-primary-foreground"
         >
           ← Back
@@ -409,186 +333,317 @@ export const RacingGame3D: React.FC<RacingGame3DProps> = ({ mode, onGameEnd, onB
         
         <Badge 
           variant="outline" 
-          className="border-game-neon-pink text-game-neon-pink text-lg px-4 py-2"
+          className="border-game-neon-pink text-game-neon-pink text-sm md:text-lg px-2 md:px-4 py-1 md:py-2"
         >
-          {mode.charAt(0).toUpperCase() + mode.slice(1)} Mode
+          {custom ? custom.name : getMode(mode).title}
         </Badge>
 
-        <div className="text-right">
-          <div className="text-game-neon-green font-bold">Speed: {Math.floor(gameState.speed * 10)} mph</div>
-          {config.aggressiveAI && (
-            <div className="text-game-neon-yellow font-bold">Rank: #{gameState.competitionRank}</div>
-          )}
-        </div>
-      </div>
-
-      {/* Game Stats */}
-      <div className="px-4 mb-4">
-        <Card className="bg-card/90 backdrop-blur-sm border-border/50 p-4">
-          <div className="grid grid-cols-4 gap-4 text-center mb-4">
-            <div>
-              <div className="text-game-neon-blue font-bold">Score</div>
-              <div className="text-xl font-mono text-foreground">{Math.floor(gameState.score)}</div>
-            </div>
-            <div>
-              <div className="text-game-neon-green font-bold">Time</div>
-              <div className="text-xl font-mono text-foreground">{formatTime(gameState.time)}</div>
-            </div>
-            <div>
-              <div className="text-game-neon-yellow font-bold">Distance</div>
-              <div className="text-xl font-mono text-foreground">{Math.floor(gameState.position / 10)} m</div>
+        <div className="text-right text-sm md:text-base">
+          <div className="text-game-neon-green font-bold">Speed: {formatSpeed(gameState.speed, settings.units.speed)}</div>
+          <div className="text-game-neon-blue font-bold">
+            Lap {lap}{Number.isFinite(config.laps) && `/${config.laps}`}
+            <span className="font-mono text-foreground ml-2">{formatTime(Math.max(gameState.time - gameState.lapStartTime, 0))}</span>
+          </div>
+          {showSplit && (
+            <div className="font-mono">
+              <span className="text-foreground">Split {formatTime(lastSplit)}</span>
+              {previousBest !== null && (
+                <span className={`ml-2 font-bold ${lastSplit <= previousBest ? 'text-game-neon-green' : 'text-game-racing-red'}`}>
+                  {formatDelta(lastSplit - previousBest)}
+                </span>
+              )}
             </div>
-            <div>
-              <div className="text-game-neon-pink font-bold">Perfect</div>
-              <div className="text-xl font-mono text-foreground">{Math.floor(gameState.perfectDriving / 60)}s</div>
+          )}
+          {standings.length > 0 && (
+            <div className="text-game-neon-yellow font-bold">
+              Rank: #{gameState.competitionRank}/{standings.length}
+              {carAhead && (
+                <span className="font-normal text-foreground ml-2">
+                  {formatDistance(carAhead.position - gameState.position, settings.units.distance)} to {carAhead.name}
+                </span>
+              )}
             </div>
-          </div>
-
-          {/* Competition Mode Features */}
-          {config.hasNitro && (
-            <div className="mb-2">
-              <div className="flex justify-between items-center mb-1">
-                <span className="text-sm text-game-neon-blue">Nitro Boost</span>
-                <span className="text-sm text-foreground">{Math.floor(gameState.nitroBoost)}%</span>
-              </div>
-              <Progress value={gameState.nitroBoost} className="h-2" />
+          )}
+          {config.difficultyCurve && (
+            <div className="text-game-neon-pink font-bold">
+              Tier {gameState.difficultyTier + 1}: {config.difficultyCurve[gameState.difficultyTier].name}
             </div>
           )}
-
-          {config.hasHealth && (
-            <div className="mb-2">
-              <div className="flex justify-between items-center mb-1">
-                <span className="text-sm text-game-racing-red">Health</span>
-                <span className="text-sm text-foreground">{Math.floor(gameState.health)}%</span>
-              </div>
-              <Progress 
-                value={gameState.health} 
-                className="h-2"
-                // @ts-ignore
-                style={{ '--progress-color': gameState.health > 30 ? '#22c55e' : '#ef4444' }}
-              />
+          {ghostDelta !== null && settings.hud.showGhostDelta && (
+            <div className={`font-bold ${ghostDelta >= 0 ? 'text-game-neon-green' : 'text-game-racing-red'}`}>
+              Best: {ghostDelta >= 0 ? '+' : '-'}{formatDistance(Math.abs(ghostDelta), settings.units.distance)} {ghostDelta >= 0 ? 'ahead' : 'behind'}
             </div>
           )}
-        </Card>
+        </div>
       </div>
 
-      {/* 3D Game View */}
-      <div className="flex-1 relative">
-        <Canvas
-          camera={{ position: [0, 3, 5], fov: 75 }}
-          style={{ width: '100%', height: '100%' }}
-        >
-          <Suspense fallback={null}>
-            {/* Lighting */}
-            <ambientLight intensity={0.6} />
-            <directionalLight position={[10, 10, 5]} intensity={1} />
-            <directionalLight position={[-10, 10, 5]} intensity={0.5} />
-
-            {/* Camera */}
-            <PerspectiveCamera 
-              ref={cameraRef}
-              makeDefault 
-              position={[gameState.playerX * 0.3, 2, 3]} 
-              fov={75}
-            />
+      {/* Game Stats */}
+      {(settings.hud.showStats || starThresholds || config.hasNitro || config.hasHealth) && (
+        <div className="px-2 md:px-4 mb-2 md:mb-4">
+          <Card className="bg-card/90 backdrop-blur-sm border-border/50 p-2 md:p-4">
+            {settings.hud.showStats && (
+              <div className="grid grid-cols-4 gap-2 md:gap-4 text-center mb-2 md:mb-4 text-xs md:text-base">
+                <div>
+                  <div className="text-game-neon-blue font-bold">Score</div>
+                  <div className="text-base md:text-xl font-mono text-foreground">{Math.floor(gameState.score)}</div>
+                </div>
+                <div>
+                  <div className="text-game-neon-green font-bold">Time</div>
+                  <div className="text-base md:text-xl font-mono text-foreground">{formatTime(gameState.time)}</div>
+                </div>
+                <div>
+                  <div className="text-game-neon-yellow font-bold">Distance</div>
+                  <div className="text-base md:text-xl font-mono text-foreground">{formatDistance(gameState.position, settings.units.distance)}</div>
+                </div>
+                <div>
+                  <div className="text-game-neon-pink font-bold">Perfect</div>
+                  <div className="text-base md:text-xl font-mono text-foreground">{Math.floor(gameState.perfectDriving)}s</div>
+                </div>
+              </div>
+            )}
+
+            {starThresholds && (
+              <div className="mb-2">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-sm text-game-neon-green">
+                    {gameState.targetReached ? 'Mission Complete' : 'Target'}
+                  </span>
+                  <span className="text-sm text-foreground">
+                    <StarRating stars={stars} className="mr-2" />
+                    {Math.floor(gameState.score).toLocaleString()} / {starThresholds.bronze.toLocaleString()}
+                  </span>
+                </div>
+                <Progress value={Math.min(gameState.score / starThresholds.bronze, 1) * 100} className="h-2" />
+              </div>
+            )}
+
+            {/* Competition Mode Features */}
+            {config.hasNitro && (
+              <div className="mb-2">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-sm text-game-neon-blue">Nitro Boost</span>
+                  <span className="text-sm text-foreground">{Math.floor(gameState.nitroBoost)}%</span>
+                </div>
+                <Progress value={gameState.nitroBoost} className="h-2" />
+              </div>
+            )}
 
-            {/* Game Environment */}
-            <Road3D speed={gameState.speed} />
-            <Environment3D speed={gameState.speed} />
+            {config.hasHealth && (
+              <div className="mb-2">
+                <div className="flex justify-between items-center mb-1">
+                  <span className="text-sm text-game-racing-red">Health</span>
+                  <span className="text-sm text-foreground">{Math.floor(gameState.health)}%</span>
+                </div>
+                <Progress 
+                  value={gameState.health} 
+                  className="h-2"
+                  // @ts-ignore
+                  style={{ '--progress-color': gameState.health > 30 ? '#22c55e' : '#ef4444' }}
+                />
+              </div>
+            )}
+          </Card>
+        </div>
+      )}
 
-            {/* Player Car */}
+      {/* 3D Game View */}
+      <div className="flex-1 relative min-h-[240px]">
+        <RaceScene3D state={gameState} car={car} paint={paint}>
+          {ghostSample && Math.abs(ghostZ) < GHOST_VISIBLE_RANGE && (
             <Car3D
-              position={[gameState.playerX, 0, 0]}
-              color="#ff0000"
+              position={[ghostSample.x, 0, ghostZ]}
+              color="#22d3ee"
               isPlayer={true}
+              body={getCar(car).body}
               speed={gameState.speed}
+              opacity={0.35}
             />
-
-            {/* Enemy Cars */}
-            {gameState.enemies.map((enemy, index) => (
-              <Car3D
-                key={index}
-                position={[enemy.x, 0, enemy.z]}
-                color={enemy.color}
-                isPlayer={false}
-                speed={enemy.speed}
-              />
-            ))}
-
-            {/* Fog for depth */}
-            <fog attach="fog" args={['#1a1a2e', 10, 50]} />
-          </Suspense>
-        </Canvas>
+          )}
+        </RaceScene3D>
+
+        {showTouchControls && isPlaying && !isPaused && (
+          <TouchControls
+            hasNitro={config.hasNitro}
+            tiltSteering={tiltSteering}
+            onChange={setTouchInput}
+            onPause={() => handleAction('pause')}
+          />
+        )}
 
         {/* Game Overlays */}
-        {gameState.countdown > 0 && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+        {countdown > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/50" onClick={handleTap}>
             <div className="text-center">
               <div className="text-8xl font-bold text-game-neon-yellow animate-neon-pulse">
-                {gameState.countdown}
+                {countdown}
               </div>
               <div className="text-2xl text-game-neon-pink mt-4">Get Ready!</div>
+              {showTouchControls && !isCountingDown && (
+                <div className="text-lg text-game-neon-blue mt-2 animate-neon-pulse">Tap to start</div>
+              )}
             </div>
           </div>
         )}
 
-        {!gameState.isPlaying && !gameState.gameOver && gameState.countdown === 0 && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/50">
-            <div className="text-center">
-              <div className="text-game-neon-blue text-3xl font-bold mb-4 animate-neon-pulse">
-                Press SPACE to Start
+        {!isPlaying && !gameState.gameOver && countdown === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/50" onClick={handleTap}>
+            <div className="text-center px-4">
+              <div className="text-game-neon-blue text-2xl md:text-3xl font-bold mb-4 animate-neon-pulse">
+                {showTouchControls ? 'Tap to Start' : `Press ${keyLabel('pause')} to Start`}
               </div>
-              <div className="text-game-neon-pink text-lg mb-4">
-                Use arrow keys to control your car
+              <div className="text-game-neon-pink text-base md:text-lg mb-4">
+                {showTouchControls
+                  ? `Use the on-screen pedals${tiltSteering ? ' and tilt to steer' : ' and arrows'}`
+                  : `Use ${keyLabel('steerLeft')} ${keyLabel('steerRight')} ${keyLabel('throttle')} ${keyLabel('brake')} or a gamepad to control your car`}
               </div>
               {config.hasNitro && (
-                <div className="text-game-neon-yellow text-lg">
-                  Hold SHIFT for Nitro Boost!
+                <div className="text-game-neon-yellow text-base md:text-lg">
+                  {showTouchControls ? 'Hold NOS' : `Hold ${keyLabel('nitro')}`} for Nitro Boost!
                 </div>
               )}
             </div>
           </div>
         )}
 
-        {gameState.isPaused && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/70">
+        {isPaused && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/70" onClick={handleTap}>
             <div className="text-center">
               <div className="text-game-neon-yellow text-4xl font-bold mb-4">PAUSED</div>
-              <div className="text-game-neon-pink text-lg">Press SPACE to resume</div>
+              <div className="text-game-neon-pink text-lg">
+                {showTouchControls ? 'Tap to resume' : `Press ${keyLabel('pause')} to resume`}
+              </div>
             </div>
           </div>
         )}
 
         {gameState.gameOver && (
-          <div className="absolute inset-0 flex items-center justify-center bg-black/80">
-            <Card className="bg-card p-8 text-center">
-              <h2 className="text-3xl font-bold text-game-racing-red mb-4">GAME OVER</h2>
+          <div className="absolute inset-0 flex items-center justify-center bg-black/80 p-4">
+            <Card className="bg-card p-4 md:p-8 text-center max-h-full overflow-y-auto">
+              {gameState.targetReached ? (
+                <>
+                  <h2 className="text-2xl md:text-3xl font-bold text-game-neon-green mb-2">MISSION COMPLETE</h2>
+                  <StarRating stars={stars} className="block text-4xl mb-4" />
+                  {isNewBestRating && (
+                    <div className="text-lg font-bold text-game-neon-yellow mb-4 animate-neon-pulse">
+                      New best rating for this mode!
+                    </div>
+                  )}
+                </>
+              ) : gameState.finished ? (
+                <h2 className="text-2xl md:text-3xl font-bold text-game-neon-blue mb-4">RACE FINISHED</h2>
+              ) : (
+                <h2 className="text-2xl md:text-3xl font-bold text-game-racing-red mb-4">GAME OVER</h2>
+              )}
+              {isNewBest && (
+                <div className="text-lg font-bold text-game-neon-green mb-4 animate-neon-pulse">
+                  New personal best! Your ghost will race you next time.
+                </div>
+              )}
               <div className="space-y-2 mb-6">
                 <div className="text-xl">Final Score: <span className="text-game-neon-blue font-bold">{Math.floor(gameState.score)}</span></div>
+                {reward && (
+                  <div className="text-sm text-muted-foreground">
+                    +{reward.xp} XP · Level {reward.level}
+                    {reward.levelsGained > 0 && <span className="text-game-neon-yellow font-bold animate-neon-pulse"> · Level up!</span>}
+                  </div>
+                )}
+                {starThresholds && (
+                  <div className="text-sm text-muted-foreground">
+                    Target {starThresholds.bronze.toLocaleString()} · Silver {starThresholds.silver.toLocaleString()} · Gold {starThresholds.gold.toLocaleString()}
+                  </div>
+                )}
                 <div className="text-xl">Time Survived: <span className="text-game-neon-green font-bold">{formatTime(gameState.time)}</span></div>
-                {config.aggressiveAI && (
-                  <div className="text-xl">Final Rank: <span className="text-game-neon-yellow font-bold">#{gameState.competitionRank}</span></div>
+                {lapTimes.length > 0 && (
+                  <div className="text-sm">
+                    <div className="text-xl">Best Lap: <span className="text-game-neon-pink font-bold">{formatTime(gameState.bestLap)}</span></div>
+                    <div className="flex flex-wrap justify-center gap-x-3 font-mono text-muted-foreground">
+                      {lapTimes.map((split, index) => (
+                        <span key={index} className={split === gameState.bestLap ? 'text-game-neon-pink' : undefined}>
+                          L{index + 1} {formatTime(split)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
                 )}
+                {config.difficultyCurve && (
+                  <div className="text-xl">Tier Reached: <span className="text-game-neon-pink font-bold">{config.difficultyCurve[gameState.difficultyTier].name}</span></div>
+                )}
+                {standings.length > 0 && (
+                  <>
+                    <div className="text-xl">Final Rank: <span className="text-game-neon-yellow font-bold">#{gameState.competitionRank}</span></div>
+                    <Table className="text-left">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Pos</TableHead>
+                          <TableHead>Driver</TableHead>
+                          <TableHead className="text-right">Result</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {standings.map((standing, index) => (
+                          <TableRow key={standing.isPlayer ? 'player' : standing.name} className={standing.isPlayer ? 'bg-primary/10' : undefined}>
+                            <TableCell className="font-bold">{index + 1}</TableCell>
+                            <TableCell>
+                              <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: standing.color }} />
+                              <span className={standing.isPlayer ? 'text-game-neon-green font-bold' : undefined}>{standing.name}</span>
+                            </TableCell>
+                            <TableCell className="text-right font-mono">
+                              {standing.finishTime !== null
+                                ? formatTime(standing.finishTime)
+                                : `Lap ${Math.min(Math.floor(standing.position / config.trackLength) + 1, config.laps)} · ${formatDistance(standing.position, settings.units.distance)}`}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </>
+                )}
+                <div className="text-sm text-muted-foreground">
+                  Seed: <span className="font-mono text-foreground">{formatSeed(gameState.seed)}</span>
+                </div>
+              </div>
+              <form onSubmit={handleSaveScore} className="flex gap-2 mb-4">
+                <Input
+                  value={playerName}
+                  onChange={(e) => setPlayerName(e.target.value)}
+                  placeholder="Enter your name"
+                  maxLength={20}
+                  aria-label="Player name"
+                />
+                <Button type="submit" className="bg-game-neon-green hover:bg-game-neon-green/80">
+                  Save Score
+                </Button>
+              </form>
+              <div className="flex gap-4 justify-center">
+                <Button
+                  onClick={() => initGame(gameState.seed)}
+                  variant="outline"
+                  className="border-game-neon-pink text-game-neon-pink hover:bg-game-neon-pink hover:text-primary-foreground"
+                >
+                  Replay This Seed
+                </Button>
+                <Button onClick={onBack} className="bg-game-neon-blue hover:bg-game-neon-blue/80">
+                  Back to Menu
+                </Button>
               </div>
-              <Button onClick={onBack} className="bg-game-neon-blue hover:bg-game-neon-blue/80">
-                Back to Menu
-              </Button>
             </Card>
           </div>
         )}
       </div>
 
       {/* Controls */}
-      <div className="p-4 text-center text-muted-foreground">
-        <div className="flex justify-center gap-6 text-sm">
-          <span>↑ Accelerate</span>
-          <span>↓ Brake</span>
-          <span>← → Steer</span>
-          {config.hasNitro && <span className="text-game-neon-blue">SHIFT Nitro</span>}
-          <span>SPACE Pause</span>
-          <span>ESC Exit</span>
+      {settings.hud.showControlHints && !showTouchControls && (
+        <div className="p-4 text-center text-muted-foreground">
+          <div className="flex justify-center gap-6 text-sm">
+            <span>{keyLabel('throttle')} Accelerate</span>
+            <span>{keyLabel('brake')} Brake</span>
+            <span>{keyLabel('steerLeft')} {keyLabel('steerRight')} Steer</span>
+            {config.hasNitro && <span className="text-game-neon-blue">{keyLabel('nitro')} Nitro</span>}
+            <span>{keyLabel('pause')} Pause</span>
+            <span>{keyLabel('back')} Exit</span>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { RaceScene3D } from './RaceScene3D';
+import { TICK_RATE, interpolateState } from '@/lib/simulation';
+import { createReplayPlayer, loadReplay } from '@/lib/replay';
+import { getMode } from '@/lib/modes';
+import { formatSeed } from '@/lib/random';
+import { formatDistance, formatSpeed } from '@/lib/units';
+import { loadProfile } from '@/lib/profile';
+import { useSettings } from '@/hooks/use-settings';
+
+interface ReplayViewerProps {
+  replayId: string;
+  onBack: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replayId, onBack }) => {
+  const replay = useMemo(() => loadReplay(replayId), [replayId]);
+  const player = useMemo(() => (replay ? createReplayPlayer(replay) : null), [replay]);
+  const { settings } = useSettings();
+  const [{ paint }] = useState(loadProfile);
+
+  const playbackRef = useRef<number>();
+  const tickRef = useRef(0);
+  const [tick, setTick] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+
+  // Playback loop: advances the fractional tick in real time
+  useEffect(() => {
+    if (!player || !isPlaying) return;
+
+    let lastFrame: number | null = null;
+
+    const playbackLoop = (now: number) => {
+      const frameTime = lastFrame === null ? 0 : (now - lastFrame) / 1000;
+      lastFrame = now;
+
+      tickRef.current = Math.min(tickRef.current + frameTime * TICK_RATE * playbackSpeed, player.ticks);
+      setTick(tickRef.current);
+
+      if (tickRef.current >= player.ticks) {
+        setIsPlaying(false);
+        return;
+      }
+
+      playbackRef.current = requestAnimationFrame(playbackLoop);
+    };
+
+    playbackRef.current = requestAnimationFrame(playbackLoop);
+
+    return () => {
+      if (playbackRef.current) {
+        cancelAnimationFrame(playbackRef.current);
+      }
+    };
+  }, [player, isPlaying, playbackSpeed]);
+
+  const seek = (value: number) => {
+    tickRef.current = value;
+    setTick(value);
+  };
+
+  const togglePlaying = () => {
+    if (!player) return;
+    if (!isPlaying && tickRef.current >= player.ticks) {
+      seek(0);
+    }
+    setIsPlaying(prev => !prev);
+  };
+
+  const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    const milliseconds = Math.floor((time % 1) * 1000);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
+  };
+
+  if (!replay || !player) {
+    return (
+      <div className="min-h-screen bg-game-dark-bg flex items-center justify-center">
+        <Card className="bg-card p-8 text-center">
+          <div className="text-6xl mb-4">📼</div>
+          <div className="text-xl text-muted-foreground mb-6">This replay is no longer available.</div>
+          <Button onClick={onBack} className="bg-game-neon-blue hover:bg-game-neon-blue/80">
+            Back
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const baseTick = Math.floor(tick);
+  const state = interpolateState(
+    player.stateAt(baseTick),
+    player.stateAt(baseTick + 1),
+    tick - baseTick
+  );
+
+  return (
+    <div className="min-h-screen bg-game-dark-bg flex flex-col">
+      {/* Top HUD */}
+      <div className="p-4 flex justify-between items-center">
+        <Button
+          onClick={onBack}
+          variant="outline"
+          className="border-game-neon-blue text-game-neon-blue hover:bg-game-neon-blue hover:text-primary-foreground"
+        >
+          ← Back
+        </Button>
+
+        <Badge
+          variant="outline"
+          className="border-game-neon-pink text-game-neon-pink text-lg px-4 py-2"
+        >
+          Replay · {replay.custom ? replay.custom.name : getMode(replay.mode).title}
+        </Badge>
+
+        <div className="text-right text-sm text-muted-foreground">
+          <div>Seed: <span className="font-mono text-foreground">{formatSeed(replay.seed)}</span></div>
+          <div>Final: <span className="text-game-neon-blue font-bold">{replay.score.toLocaleString()} pts</span></div>
+        </div>
+      </div>
+
+      {/* Replay Stats */}
+      <div className="px-4 mb-4">
+        <Card className="bg-card/90 backdrop-blur-sm border-border/50 p-4">
+          <div className="grid grid-cols-4 gap-4 text-center">
+            <div>
+              <div className="text-game-neon-blue font-bold">Score</div>
+              <div className="text-xl font-mono text-foreground">{Math.floor(state.score)}</div>
+            </div>
+            <div>
+              <div className="text-game-neon-green font-bold">Time</div>
+              <div className="text-xl font-mono text-foreground">{formatTime(state.time)}</div>
+            </div>
+            <div>
+              <div className="text-game-neon-yellow font-bold">Distance</div>
+              <div className="text-xl font-mono text-foreground">{formatDistance(state.position, settings.units.distance)}</div>
+            </div>
+            <div>
+              <div className="text-game-neon-pink font-bold">Speed</div>
+              <div className="text-xl font-mono text-foreground">{formatSpeed(state.speed, settings.units.speed)}</div>
+            </div>
+          </div>
+        </Card>
+      </div>
+
+      {/* 3D Replay View */}
+      <div className="flex-1 relative">
+        <RaceScene3D state={state} car={replay.car} paint={paint} />
+      </div>
+
+      {/* Playback Controls */}
+      <div className="p-4">
+        <Card className="bg-card/90 backdrop-blur-sm border-border/50 p-4 space-y-4">
+          <div className="flex items-center gap-4">
+            <Button
+              onClick={togglePlaying}
+              className="bg-game-neon-blue hover:bg-game-neon-blue/80 w-24"
+            >
+              {isPlaying ? '⏸ Pause' : '▶ Play'}
+            </Button>
+            <Slider
+              value={[tick]}
+              min={0}
+              max={player.ticks}
+              step={1}
+              onValueChange={([value]) => seek(value)}
+              aria-label="Replay timeline"
+            />
+            <span className="font-mono text-sm text-muted-foreground whitespace-nowrap">
+              {formatTime(tick / TICK_RATE)} / {formatTime(player.ticks / TICK_RATE)}
+            </span>
+          </div>
+          <div className="flex items-center justify-center gap-4">
+            <span className="text-sm text-muted-foreground">Speed</span>
+            <ToggleGroup
+              type="single"
+              value={playbackSpeed.toString()}
+              onValueChange={(value) => value && setPlaybackSpeed(Number(value))}
+            >
+              {PLAYBACK_SPEEDS.map(speed => (
+                <ToggleGroupItem key={speed} value={speed.toString()} size="sm">
+                  {speed}x
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
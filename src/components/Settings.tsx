@@ -0,0 +1,355 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { toast } from '@/components/ui/sonner';
+import { DEFAULT_SETTINGS, GRAPHICS_QUALITIES, Settings as SettingsValues, settingsSchema } from '@/lib/settings';
+import { useSettings } from '@/hooks/use-settings';
+import { KeyBindingEditor } from './KeyBindingEditor';
+import { TiltCalibration } from './TiltCalibration';
+
+interface SettingsProps {
+  onBack: () => void;
+}
+
+export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
+  const { settings, saveSettings } = useSettings();
+
+  const form = useForm<SettingsValues>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: settings,
+  });
+
+  const onSubmit = (values: SettingsValues) => {
+    saveSettings(values);
+    form.reset(values);
+    toast.success('Settings saved');
+  };
+
+  const switchField = (
+    name: 'controls.autoAccelerate' | 'controls.pauseOnBlur' | 'controls.gamepadEnabled' | 'controls.tiltSteering' | 'hud.showStats' | 'hud.showControlHints' | 'hud.showGhostDelta',
+    label: string,
+    description: string
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <FormLabel>{label}</FormLabel>
+            <FormDescription>{description}</FormDescription>
+          </div>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  const sliderField = (
+    name: 'controls.gamepadDeadzone' | 'controls.tiltSensitivity' | 'audio.masterVolume' | 'audio.sfxVolume' | 'audio.musicVolume' | 'camera.fov' | 'camera.follow',
+    label: string,
+    { min, max, step, format }: { min: number; max: number; step: number; format: (value: number) => string }
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="flex justify-between">
+            <FormLabel>{label}</FormLabel>
+            <span className="text-sm font-mono text-muted-foreground">{format(field.value)}</span>
+          </div>
+          <FormControl>
+            <Slider
+              value={[field.value]}
+              min={min}
+              max={max}
+              step={step}
+              onValueChange={([value]) => field.onChange(value)}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const percent = (value: number) => `${Math.round(value)}%`;
+  const percentOfOne = (value: number) => `${Math.round(value * 100)}%`;
+
+  return (
+    <div className="min-h-screen bg-game-dark-bg">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-8">
+          <Button
+            onClick={onBack}
+            variant="outline"
+            className="border-game-neon-blue text-game-neon-blue hover:bg-game-neon-blue hover:text-primary-foreground"
+          >
+            ← Back to Menu
+          </Button>
+
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-game-neon-blue via-game-neon-pink to-game-neon-green bg-clip-text text-transparent">
+            ⚙️ Settings
+          </h1>
+
+          <Button
+            onClick={() => form.reset(DEFAULT_SETTINGS, { keepDefaultValues: true })}
+            variant="outline"
+            className="border-game-racing-red text-game-racing-red hover:bg-game-racing-red hover:text-primary-foreground"
+          >
+            Reset Defaults
+          </Button>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {/* Controls */}
+              <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-game-neon-blue">Controls</CardTitle>
+                  <CardDescription>How your inputs reach the car.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {switchField('controls.autoAccelerate', 'Auto-accelerate', 'Hold throttle unless braking.')}
+                  {switchField('controls.pauseOnBlur', 'Pause on focus loss', 'Pause when you switch windows or tabs.')}
+                  <FormField
+                    control={form.control}
+                    name="controls.keyBindings"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Key Bindings</FormLabel>
+                        <FormDescription>Click a key, then press its replacement. Esc cancels, Backspace clears.</FormDescription>
+                        <FormControl>
+                          <KeyBindingEditor value={field.value} onChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  {switchField('controls.gamepadEnabled', 'Gamepad', 'Left stick or d-pad steers, triggers drive, A boosts.')}
+                  {sliderField('controls.gamepadDeadzone', 'Stick Deadzone', { min: 0, max: 0.5, step: 0.05, format: percentOfOne })}
+                  <FormField
+                    control={form.control}
+                    name="controls.touchControls"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>On-screen Controls</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="auto">On touch screens</SelectItem>
+                            <SelectItem value="on">Always</SelectItem>
+                            <SelectItem value="off">Never</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  {switchField('controls.tiltSteering', 'Tilt Steering', 'Steer by tilting your phone or tablet.')}
+                  {sliderField('controls.tiltSensitivity', 'Tilt for Full Lock', { min: 10, max: 45, step: 1, format: (value) => `${value}°` })}
+                  <FormField
+                    control={form.control}
+                    name="controls.tiltCenter"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Tilt Calibration</FormLabel>
+                        <FormControl>
+                          <TiltCalibration center={field.value} onCalibrate={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Graphics */}
+              <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-game-neon-pink">Graphics</CardTitle>
+                  <CardDescription>Lower quality draws less scenery and renders at a lower resolution.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <FormField
+                    control={form.control}
+                    name="graphics.quality"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Quality</FormLabel>
+                        <FormControl>
+                          <RadioGroup
+                            value={field.value}
+                            onValueChange={field.onChange}
+                            className="flex gap-6"
+                          >
+                            {GRAPHICS_QUALITIES.map(quality => (
+                              <FormItem key={quality} className="flex items-center gap-2 space-y-0">
+                                <FormControl>
+                                  <RadioGroupItem value={quality} />
+                                </FormControl>
+                                <FormLabel className="font-normal capitalize">{quality}</FormLabel>
+                              </FormItem>
+                            ))}
+                          </RadioGroup>
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Audio */}
+              <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-game-neon-green">Audio</CardTitle>
+                  <CardDescription>Volume levels for the game's sound.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {sliderField('audio.masterVolume', 'Master', { min: 0, max: 100, step: 1, format: percent })}
+                  {sliderField('audio.sfxVolume', 'Sound Effects', { min: 0, max: 100, step: 1, format: percent })}
+                  {sliderField('audio.musicVolume', 'Music', { min: 0, max: 100, step: 1, format: percent })}
+                </CardContent>
+              </Card>
+
+              {/* Units */}
+              <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-game-neon-yellow">Units</CardTitle>
+                  <CardDescription>How speed and distance are shown.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="units.speed"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Speed</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="mph">Miles per hour (mph)</SelectItem>
+                            <SelectItem value="kmh">Kilometres per hour (km/h)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="units.distance"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Distance</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="m">Metres (m)</SelectItem>
+                            <SelectItem value="ft">Feet (ft)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Camera */}
+              <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-game-neon-blue">Camera</CardTitle>
+                  <CardDescription>Where the camera sits behind your car.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="camera.view"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>View</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="chase">Chase</SelectItem>
+                            <SelectItem value="close">Close</SelectItem>
+                            <SelectItem value="overhead">Overhead</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  {sliderField('camera.fov', 'Field of View', { min: 50, max: 100, step: 1, format: (value) => `${value}°` })}
+                  {sliderField('camera.follow', 'Steering Follow', { min: 0, max: 1, step: 0.05, format: percentOfOne })}
+                </CardContent>
+              </Card>
+
+              {/* HUD */}
+              <Card className="bg-card/90 backdrop-blur-sm border-border/50">
+                <CardHeader>
+                  <CardTitle className="text-game-neon-pink">HUD</CardTitle>
+                  <CardDescription>What is shown around the track while racing.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {switchField('hud.showStats', 'Stats panel', 'Score, time, distance and perfect driving.')}
+                  {switchField('hud.showControlHints', 'Control hints', 'Key reminders below the track.')}
+                  {switchField('hud.showGhostDelta', 'Ghost delta', 'Distance ahead of or behind your personal best.')}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="flex justify-end gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => form.reset(settings)}
+                disabled={!form.formState.isDirty}
+              >
+                Discard Changes
+              </Button>
+              <Button
+                type="submit"
+                className="bg-game-neon-green hover:bg-game-neon-green/80"
+                disabled={!form.formState.isDirty}
+              >
+                Save Settings
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { StarRating as Rating } from '@/lib/missions';
+
+interface StarRatingProps {
+  stars: Rating;
+  className?: string;
+}
+
+export const StarRating: React.FC<StarRatingProps> = ({ stars, className }) => (
+  <span className={cn('tracking-widest', className)} aria-label={`${stars} of 3 stars`}>
+    {[1, 2, 3].map((star) => (
+      <span key={star} className={star <= stars ? 'text-game-neon-yellow' : 'text-muted-foreground/40'}>
+        {star <= stars ? '★' : '☆'}
+      </span>
+    ))}
+  </span>
+);
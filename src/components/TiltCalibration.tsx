@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { readTiltAngle, requestTiltPermission } from '@/lib/input';
+
+interface TiltCalibrationProps {
+  center: number;
+  onCalibrate: (center: number) => void;
+}
+
+const MAX_CENTER = 45;
+
+// Hold the device the way you race with it, then press Calibrate
+export const TiltCalibration: React.FC<TiltCalibrationProps> = ({ center, onCalibrate }) => {
+  const [angle, setAngle] = useState<number | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  useEffect(() => {
+    if (!isListening) return;
+
+    const handleOrientation = (e: DeviceOrientationEvent) => {
+      if (e.gamma !== null) setAngle(readTiltAngle(e));
+    };
+
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => window.removeEventListener('deviceorientation', handleOrientation);
+  }, [isListening]);
+
+  const calibrate = async () => {
+    if (!isListening) {
+      const granted = await requestTiltPermission();
+      setIsUnavailable(!granted);
+      setIsListening(granted);
+      return;
+    }
+    if (angle !== null) {
+      onCalibrate(Math.round(Math.max(-MAX_CENTER, Math.min(MAX_CENTER, angle))));
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="text-sm text-muted-foreground">
+        {isUnavailable
+          ? 'Tilt sensor unavailable on this device.'
+          : angle === null
+            ? `Neutral at ${center}°`
+            : `Neutral at ${center}° · now ${Math.round(angle - center)}°`}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={calibrate}
+        disabled={isListening && angle === null}
+      >
+        {isListening ? 'Set Neutral' : 'Calibrate'}
+      </Button>
+    </div>
+  );
+};
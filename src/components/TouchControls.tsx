@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { NO_INPUT, SimulationInput } from '@/lib/simulation';
+
+type TouchButton = 'left' | 'right' | 'throttle' | 'brake' | 'nitro';
+
+interface TouchControlsProps {
+  hasNitro: boolean;
+  tiltSteering: boolean;
+  onChange: (input: SimulationInput) => void;
+  onPause: () => void;
+}
+
+interface TouchPadProps {
+  label: string;
+  pressed: boolean;
+  onPress: (pressed: boolean) => void;
+  className: string;
+}
+
+// Each pad tracks its own pointer, so several fingers can hold different pads at once
+const TouchPad: React.FC<TouchPadProps> = ({ label, pressed, onPress, className }) => (
+  <div
+    role="button"
+    aria-label={label}
+    aria-pressed={pressed}
+    className={`pointer-events-auto touch-none select-none flex items-center justify-center font-bold border-2 backdrop-blur-sm transition-transform ${pressed ? 'scale-95 opacity-100' : 'opacity-60'} ${className}`}
+    onPointerDown={(e) => {
+      e.preventDefault();
+      onPress(true);
+    }}
+    onPointerUp={() => onPress(false)}
+    onPointerCancel={() => onPress(false)}
+    onPointerLeave={() => onPress(false)}
+    onContextMenu={(e) => e.preventDefault()}
+  >
+    {label}
+  </div>
+);
+
+export const TouchControls: React.FC<TouchControlsProps> = ({ hasNitro, tiltSteering, onChange, onPause }) => {
+  const [pressed, setPressed] = useState<Record<TouchButton, boolean>>({
+    left: false,
+    right: false,
+    throttle: false,
+    brake: false,
+    nitro: false,
+  });
+
+  const press = (button: TouchButton) => (isPressed: boolean) =>
+    setPressed(prev => (prev[button] === isPressed ? prev : { ...prev, [button]: isPressed }));
+
+  useEffect(() => {
+    onChange({
+      steer: (pressed.right ? 1 : 0) - (pressed.left ? 1 : 0),
+      throttle: pressed.throttle ? 1 : 0,
+      brake: pressed.brake ? 1 : 0,
+      nitro: pressed.nitro,
+    });
+  }, [pressed, onChange]);
+
+  // Don't leave a pedal held down after the controls go away
+  useEffect(() => () => onChange(NO_INPUT), [onChange]);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <button
+        type="button"
+        aria-label="Pause"
+        className="pointer-events-auto absolute top-2 right-2 w-10 h-10 rounded-full bg-black/40 border border-game-neon-yellow text-game-neon-yellow font-bold"
+        onClick={onPause}
+      >
+        ❚❚
+      </button>
+
+      <div className="absolute inset-x-0 bottom-0 flex justify-between items-end p-3 gap-3">
+        {/* Steering */}
+        {tiltSteering ? (
+          <div className="text-xs text-game-neon-blue bg-black/40 rounded px-2 py-1">Tilt to steer</div>
+        ) : (
+          <div className="flex gap-3">
+            <TouchPad
+              label="◀"
+              pressed={pressed.left}
+              onPress={press('left')}
+              className="w-20 h-20 rounded-full text-2xl bg-game-neon-blue/20 border-game-neon-blue text-game-neon-blue"
+            />
+            <TouchPad
+              label="▶"
+              pressed={pressed.right}
+              onPress={press('right')}
+              className="w-20 h-20 rounded-full text-2xl bg-game-neon-blue/20 border-game-neon-blue text-game-neon-blue"
+            />
+          </div>
+        )}
+
+        {/* Pedals */}
+        <div className="flex gap-3 items-end">
+          {hasNitro && (
+            <TouchPad
+              label="NOS"
+              pressed={pressed.nitro}
+              onPress={press('nitro')}
+              className="w-14 h-14 rounded-full text-sm bg-game-neon-yellow/20 border-game-neon-yellow text-game-neon-yellow"
+            />
+          )}
+          <TouchPad
+            label="BRAKE"
+            pressed={pressed.brake}
+            onPress={press('brake')}
+            className="w-16 h-20 rounded-lg text-xs bg-game-racing-red/20 border-game-racing-red text-game-racing-red"
+          />
+          <TouchPad
+            label="GAS"
+            pressed={pressed.throttle}
+            onPress={press('throttle')}
+            className="w-16 h-28 rounded-lg text-xs bg-game-neon-green/20 border-game-neon-green text-game-neon-green"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import * as React from "react"
+
+import { GameAudio, createGameAudio } from "@/lib/audio"
+import { useSettings } from "@/hooks/use-settings"
+
+/** Sound for the game screen, following the saved volume settings. */
+function useGameAudio(): GameAudio {
+  const { settings } = useSettings()
+  const [audio] = React.useState(createGameAudio)
+
+  React.useEffect(() => {
+    audio.setVolumes(settings.audio)
+  }, [audio, settings.audio])
+
+  React.useEffect(() => () => audio.dispose(), [audio])
+
+  return audio
+}
+
+export { useGameAudio }
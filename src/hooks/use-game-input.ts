@@ -0,0 +1,81 @@
+import * as React from "react"
+
+import { Action, InputController, createInputController } from "@/lib/input"
+import { NO_INPUT, SimulationInput } from "@/lib/simulation"
+import { useSettings } from "@/hooks/use-settings"
+
+/**
+ * Keyboard, gamepad, touch and tilt input for the game screen. `onAction` receives the
+ * edge-triggered actions (pause, back); `readInput` samples the rest.
+ */
+function useGameInput(onAction: (action: Action) => void) {
+  const { settings } = useSettings()
+  const {
+    keyBindings,
+    gamepadEnabled,
+    gamepadDeadzone,
+    autoAccelerate,
+    tiltSteering,
+    tiltCenter,
+    tiltSensitivity,
+  } = settings.controls
+  const options = React.useMemo(
+    () => ({
+      bindings: keyBindings,
+      gamepadEnabled,
+      deadzone: gamepadDeadzone,
+      tiltEnabled: tiltSteering,
+      tiltCenter,
+      tiltSensitivity,
+    }),
+    [keyBindings, gamepadEnabled, gamepadDeadzone, tiltSteering, tiltCenter, tiltSensitivity]
+  )
+  const controllerRef = React.useRef<InputController>()
+  const optionsRef = React.useRef(options)
+  const onActionRef = React.useRef(onAction)
+
+  React.useEffect(() => {
+    onActionRef.current = onAction
+  }, [onAction])
+
+  // The controller lives as long as the screen; later options reach it through setOptions
+  React.useEffect(() => {
+    const controller = createInputController(optionsRef.current, (action) => onActionRef.current(action))
+    controllerRef.current = controller
+
+    // Gamepads have no events for button presses, so poll every frame
+    let frame: number
+    const pollLoop = () => {
+      controller.poll()
+      frame = requestAnimationFrame(pollLoop)
+    }
+    frame = requestAnimationFrame(pollLoop)
+
+    return () => {
+      cancelAnimationFrame(frame)
+      controller.dispose()
+      controllerRef.current = undefined
+    }
+  }, [])
+
+  React.useEffect(() => {
+    optionsRef.current = options
+    controllerRef.current?.setOptions(options)
+  }, [options])
+
+  const readInput = React.useCallback((): SimulationInput => {
+    const input = controllerRef.current?.read() ?? NO_INPUT
+    if (autoAccelerate && input.brake === 0) {
+      return { ...input, throttle: 1 }
+    }
+    return input
+  }, [autoAccelerate])
+
+  const setTouchInput = React.useCallback((input: SimulationInput) => {
+    controllerRef.current?.setTouchInput(input)
+  }, [])
+
+  return { readInput, setTouchInput, keyBindings }
+}
+
+export { useGameInput }
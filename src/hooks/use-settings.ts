@@ -0,0 +1,13 @@
+import * as React from "react"
+
+import { Settings, getSettings, saveSettings, subscribeSettings } from "@/lib/settings"
+
+function useSettings() {
+  const [settings, setSettings] = React.useState<Settings>(getSettings)
+
+  React.useEffect(() => subscribeSettings(setSettings), [])
+
+  return { settings, saveSettings }
+}
+
+export { useSettings }
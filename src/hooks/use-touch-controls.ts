@@ -0,0 +1,24 @@
+import * as React from "react"
+
+import { TouchControlMode } from "@/lib/settings"
+
+const TOUCH_QUERY = "(pointer: coarse)"
+
+/** Whether on-screen controls should be shown for the given setting. */
+export function useTouchControls(mode: TouchControlMode) {
+  const [isTouch, setIsTouch] = React.useState<boolean | undefined>(undefined)
+
+  React.useEffect(() => {
+    const mql = window.matchMedia(TOUCH_QUERY)
+    const onChange = () => {
+      setIsTouch(mql.matches || navigator.maxTouchPoints > 0)
+    }
+    mql.addEventListener("change", onChange)
+    onChange()
+    return () => mql.removeEventListener("change", onChange)
+  }, [])
+
+  if (mode === "on") return true
+  if (mode === "off") return false
+  return !!isTouch
+}
@@ -0,0 +1,183 @@
+// Achievements, defined once as data. Each one listens for a simulation
+// event, measures it, and either keeps the best measurement or adds them up
+// across runs; it unlocks when that reaches its goal. Progress is kept in
+// localStorage so it carries over between sessions.
+
+import { SimulationEvent, SimulationState } from './simulation';
+
+type EventType = SimulationEvent['type'];
+type EventOf<T extends EventType> = Extract<SimulationEvent, { type: T }>;
+
+/** An achievement as written below: the event it listens for and how to measure it. */
+interface AchievementSpec<T extends EventType> {
+  title: string;
+  description: string;
+  icon: string;
+  goal: number;
+  unit?: string; // Suffix for progress values, e.g. 's'
+  on: T;
+  measure: (event: EventOf<T>, state: SimulationState) => number;
+  tally: 'best' | 'total'; // Keep the best single measurement, or add them all up
+}
+
+export interface AchievementDefinition extends Omit<AchievementSpec<EventType>, 'on' | 'measure'> {
+  /** Measures any event; null for events this achievement doesn't listen for. */
+  measure: (event: SimulationEvent, state: SimulationState) => number | null;
+}
+
+export interface AchievementProgress {
+  progress: number;
+  unlockedAt?: string; // ISO date
+}
+
+export type AchievementsData = Record<string, AchievementProgress>;
+
+const isEvent = <T extends EventType>(event: SimulationEvent, type: T): event is EventOf<T> => event.type === type;
+
+// Ties each measure to the event it listens for
+const achievement = <T extends EventType>({ on, measure, ...spec }: AchievementSpec<T>): AchievementDefinition => ({
+  ...spec,
+  measure: (event, state) => (isEvent(event, on) ? measure(event, state) : null),
+});
+
+const defineAchievements = <T extends Record<string, AchievementDefinition>>(achievements: T) => achievements;
+
+// Gallery order
+export const ACHIEVEMENTS = defineAchievements({
+  endlessSurvivor: achievement({
+    title: 'Long Haul',
+    description: 'Survive 5 minutes in Endless Highway.',
+    icon: '🛣',
+    goal: 300,
+    unit: 's',
+    on: 'gameOver',
+    measure: (_, state) => (state.mode === 'endless' ? Math.floor(state.time) : 0),
+    tally: 'best',
+  }),
+  champion: achievement({
+    title: 'Champion',
+    description: 'Finish Competition Mode in first place.',
+    icon: '🏆',
+    goal: 1,
+    on: 'gameOver',
+    measure: (_, state) => (state.mode === 'competition' && state.finished && state.competitionRank === 1 ? 1 : 0),
+    tally: 'best',
+  }),
+  inTheZone: achievement({
+    title: 'In the Zone',
+    description: 'Drive perfectly for 60 seconds without a break.',
+    icon: '🧘',
+    goal: 60,
+    unit: 's',
+    on: 'perfectStreak',
+    measure: (event) => Math.floor(event.seconds),
+    tally: 'best',
+  }),
+  afterburner: achievement({
+    title: 'Afterburner',
+    description: 'Drain a full nitro tank in one burn.',
+    icon: '🔥',
+    goal: 100,
+    unit: '%',
+    on: 'nitroEmpty',
+    measure: (event) => Math.round(event.burned),
+    tally: 'best',
+  }),
+  untouchable: achievement({
+    title: 'Untouchable',
+    description: 'Complete a mission without a single collision.',
+    icon: '✨',
+    goal: 1,
+    on: 'gameOver',
+    measure: (_, state) => (state.targetReached && state.collisions === 0 ? 1 : 0),
+    tally: 'best',
+  }),
+  bumperCars: achievement({
+    title: 'Bumper Cars',
+    description: 'Collide with traffic 100 times.',
+    icon: '💥',
+    goal: 100,
+    on: 'collision',
+    measure: (event) => (event.impact ? 1 : 0),
+    tally: 'total',
+  }),
+  lapLegend: achievement({
+    title: 'Lap Legend',
+    description: 'Complete 50 laps.',
+    icon: '🏁',
+    goal: 50,
+    on: 'lap',
+    measure: () => 1,
+    tally: 'total',
+  }),
+  regular: achievement({
+    title: 'Regular',
+    description: 'Play 25 games.',
+    icon: '🎮',
+    goal: 25,
+    on: 'gameOver',
+    measure: () => 1,
+    tally: 'total',
+  }),
+});
+
+export type AchievementId = keyof typeof ACHIEVEMENTS;
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS) as AchievementId[];
+
+const ACHIEVEMENTS_KEY = 'neonDashAchievements';
+
+export const loadAchievements = (): AchievementsData => {
+  try {
+    const saved = localStorage.getItem(ACHIEVEMENTS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to load achievements:', error);
+  }
+  return {};
+};
+
+const saveAchievements = (data: AchievementsData) => {
+  try {
+    localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error('Failed to save achievements:', error);
+  }
+};
+
+/**
+ * Folds a tick's events into the stored progress and returns the
+ * achievements they unlocked, in gallery order.
+ */
+export const trackAchievements = (events: SimulationEvent[], state: SimulationState): AchievementId[] => {
+  if (events.length === 0) return [];
+
+  const data = loadAchievements();
+  const unlocked: AchievementId[] = [];
+  let changed = false;
+
+  for (const id of ACHIEVEMENT_IDS) {
+    const { goal, measure, tally } = ACHIEVEMENTS[id];
+    const current = data[id] ?? { progress: 0 };
+    if (current.unlockedAt) continue;
+
+    let progress = current.progress;
+    for (const event of events) {
+      const value = measure(event, state);
+      if (value === null) continue;
+      progress = tally === 'best' ? Math.max(progress, value) : progress + value;
+    }
+    if (progress === current.progress) continue;
+
+    changed = true;
+    if (progress >= goal) {
+      data[id] = { progress: goal, unlockedAt: new Date().toISOString() };
+      unlocked.push(id);
+    } else {
+      data[id] = { progress };
+    }
+  }
+
+  if (changed) saveAchievements(data);
+  return unlocked;
+};
@@ -0,0 +1,249 @@
+// Procedural sound for the game: every effect is synthesized with Web Audio
+// oscillators and filtered noise, so there are no assets to load. The
+// AudioContext is created lazily on the first `resume()`, which callers make
+// from a key press or tap so browsers allow playback.
+
+import { DEFAULT_SETTINGS, Settings } from './settings';
+
+export type AudioVolumes = Settings['audio'];
+
+export interface GameAudio {
+  resume: () => void;
+  suspend: () => void;
+  setVolumes: (volumes: AudioVolumes) => void;
+  /** Engine hum and music run while racing. */
+  setRacing: (racing: boolean) => void;
+  /** Engine load from 0 (idle) to 1 (top speed). */
+  setEngine: (level: number) => void;
+  playNitro: () => void;
+  playCrash: () => void;
+  playBeep: (final: boolean) => void;
+  playGameOver: () => void;
+  dispose: () => void;
+}
+
+interface AudioGraph {
+  ctx: AudioContext;
+  master: GainNode;
+  sfx: GainNode;
+  music: GainNode;
+  engineGain: GainNode;
+  engineFilter: BiquadFilterNode;
+  engineOscillators: OscillatorNode[];
+  noise: AudioBuffer;
+}
+
+const ENGINE_IDLE_HZ = 45;
+const ENGINE_RANGE_HZ = 180;
+const ENGINE_VOLUME = 0.12;
+
+// Minor-key bass line and arpeggio, one entry per eighth note
+const MUSIC_TEMPO = 120;
+const BASS_LINE = [55, 55, 65.41, 55, 49, 49, 58.27, 49];
+const ARPEGGIO = [220, 261.63, 329.63, 261.63, 196, 246.94, 293.66, 246.94];
+const SCHEDULE_AHEAD = 0.2; // Seconds of music queued at a time
+const SCHEDULER_INTERVAL = 50; // ms
+
+// Sliders are linear, loudness isn't
+const toGain = (volume: number) => (volume / 100) ** 2;
+
+const createNoiseBuffer = (ctx: AudioContext) => {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.random() * 2 - 1;
+  }
+  return buffer;
+};
+
+export const createGameAudio = (): GameAudio => {
+  let graph: AudioGraph | null = null;
+  let volumes: AudioVolumes = DEFAULT_SETTINGS.audio;
+  let isRacing = false;
+  let engineLevel = 0;
+  let musicTimer: ReturnType<typeof setInterval> | undefined;
+  let nextNoteTime = 0;
+  let noteIndex = 0;
+
+  const applyVolumes = () => {
+    if (!graph) return;
+    const now = graph.ctx.currentTime;
+    graph.master.gain.setTargetAtTime(toGain(volumes.masterVolume), now, 0.02);
+    graph.sfx.gain.setTargetAtTime(toGain(volumes.sfxVolume), now, 0.02);
+    graph.music.gain.setTargetAtTime(toGain(volumes.musicVolume), now, 0.02);
+  };
+
+  const applyEngine = () => {
+    if (!graph) return;
+    const now = graph.ctx.currentTime;
+    const frequency = ENGINE_IDLE_HZ + engineLevel * ENGINE_RANGE_HZ;
+    graph.engineOscillators[0].frequency.setTargetAtTime(frequency, now, 0.05);
+    graph.engineOscillators[1].frequency.setTargetAtTime(frequency / 2, now, 0.05);
+    graph.engineFilter.frequency.setTargetAtTime(300 + engineLevel * 1500, now, 0.05);
+    graph.engineGain.gain.setTargetAtTime(isRacing ? ENGINE_VOLUME * (0.6 + engineLevel * 0.4) : 0, now, 0.1);
+  };
+
+  const createGraph = (): AudioGraph | null => {
+    const AudioContextClass = typeof window !== 'undefined' ? window.AudioContext : undefined;
+    if (!AudioContextClass) return null;
+
+    const ctx = new AudioContextClass();
+    const master = ctx.createGain();
+    const sfx = ctx.createGain();
+    const music = ctx.createGain();
+    master.connect(ctx.destination);
+    sfx.connect(master);
+    music.connect(master);
+
+    const engineGain = ctx.createGain();
+    engineGain.gain.value = 0;
+    const engineFilter = ctx.createBiquadFilter();
+    engineFilter.type = 'lowpass';
+    engineFilter.connect(engineGain);
+    engineGain.connect(sfx);
+
+    const engineOscillators = (['sawtooth', 'square'] as OscillatorType[]).map(type => {
+      const oscillator = ctx.createOscillator();
+      oscillator.type = type;
+      oscillator.connect(engineFilter);
+      oscillator.start();
+      return oscillator;
+    });
+
+    return {
+      ctx,
+      master,
+      sfx,
+      music,
+      engineGain,
+      engineFilter,
+      engineOscillators,
+      noise: createNoiseBuffer(ctx),
+    };
+  };
+
+  // One oscillator note with a short attack and exponential release
+  const playTone = (
+    destination: AudioNode,
+    type: OscillatorType,
+    frequency: number,
+    start: number,
+    duration: number,
+    volume: number
+  ) => {
+    if (!graph) return;
+    const oscillator = graph.ctx.createOscillator();
+    const gain = graph.ctx.createGain();
+    oscillator.type = type;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(volume, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    oscillator.connect(gain);
+    gain.connect(destination);
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+  };
+
+  const playNoise = (filterType: BiquadFilterType, from: number, to: number, duration: number, volume: number) => {
+    if (!graph) return;
+    const { ctx } = graph;
+    const now = ctx.currentTime;
+    const source = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+
+    source.buffer = graph.noise;
+    filter.type = filterType;
+    filter.frequency.setValueAtTime(from, now);
+    filter.frequency.exponentialRampToValueAtTime(to, now + duration);
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(volume, now + duration * 0.15);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + duration);
+
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(graph.sfx);
+    source.start(now);
+    source.stop(now + duration);
+  };
+
+  const scheduleMusic = () => {
+    if (!graph) return;
+    const eighth = 60 / MUSIC_TEMPO / 2;
+    while (nextNoteTime < graph.ctx.currentTime + SCHEDULE_AHEAD) {
+      const step = noteIndex % BASS_LINE.length;
+      playTone(graph.music, 'triangle', BASS_LINE[step], nextNoteTime, eighth * 0.9, 0.3);
+      playTone(graph.music, 'square', ARPEGGIO[step], nextNoteTime, eighth * 0.5, 0.05);
+      nextNoteTime += eighth;
+      noteIndex++;
+    }
+  };
+
+  const startMusic = () => {
+    if (!graph || musicTimer) return;
+    nextNoteTime = graph.ctx.currentTime + 0.05;
+    noteIndex = 0;
+    musicTimer = setInterval(scheduleMusic, SCHEDULER_INTERVAL);
+  };
+
+  const stopMusic = () => {
+    clearInterval(musicTimer);
+    musicTimer = undefined;
+  };
+
+  return {
+    resume: () => {
+      if (!graph) {
+        graph = createGraph();
+        applyVolumes();
+        applyEngine();
+        if (isRacing) startMusic();
+      }
+      // Browsers refuse to start audio before a user gesture; the next resume tries again
+      graph?.ctx.resume().catch(() => {});
+    },
+    suspend: () => {
+      graph?.ctx.suspend().catch(() => {});
+    },
+    setVolumes: (next) => {
+      volumes = next;
+      applyVolumes();
+    },
+    setRacing: (racing) => {
+      isRacing = racing;
+      applyEngine();
+      if (racing) startMusic();
+      else stopMusic();
+    },
+    setEngine: (level) => {
+      engineLevel = Math.max(0, Math.min(1, level));
+      applyEngine();
+    },
+    playNitro: () => {
+      playNoise('bandpass', 400, 3000, 0.8, 0.5);
+    },
+    playCrash: () => {
+      if (!graph) return;
+      playNoise('lowpass', 2000, 200, 0.5, 0.8);
+      playTone(graph.sfx, 'sine', 70, graph.ctx.currentTime, 0.3, 0.6);
+    },
+    playBeep: (final) => {
+      if (!graph) return;
+      playTone(graph.sfx, 'square', final ? 880 : 440, graph.ctx.currentTime, final ? 0.45 : 0.15, 0.2);
+    },
+    playGameOver: () => {
+      if (!graph) return;
+      const { ctx, sfx } = graph;
+      const start = ctx.currentTime;
+      [440, 349.23, 261.63, 196].forEach((frequency, index) => {
+        playTone(sfx, 'sawtooth', frequency, start + index * 0.22, index === 3 ? 0.9 : 0.25, 0.15);
+      });
+    },
+    dispose: () => {
+      stopMusic();
+      graph?.ctx.close().catch(() => {});
+      graph = null;
+    },
+  };
+};
@@ -0,0 +1,168 @@
+// Player-built modes. A custom mode is a name plus the same knobs as a
+// built-in ModeConfig; it is saved locally, travels in share links as a
+// compact code, and scores go to a leaderboard keyed by a hash of the rules.
+
+import { z } from 'zod';
+import { ModeConfig, getModeConfig } from './modes';
+
+/** Form values; 0 means "no limit" for timeLimit and targetScore. */
+export interface CustomModeValues {
+  name: string;
+  timeLimit: number;
+  targetScore: number;
+  enemies: number;
+  maxSpeed: number;
+  hasNitro: boolean;
+  hasHealth: boolean;
+  aggressiveAI: boolean;
+}
+
+export interface CustomMode extends CustomModeValues {
+  id: string; // Hash of the rules, shared by everyone playing them
+  createdAt: string;
+}
+
+export const customModeSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Give your mode a name').max(30),
+    timeLimit: z.number().int().min(0).max(600),
+    targetScore: z.number().int().min(0).max(10000000),
+    enemies: z.number().int().min(1).max(20),
+    maxSpeed: z.number().int().min(8).max(30),
+    hasNitro: z.boolean(),
+    hasHealth: z.boolean(),
+    aggressiveAI: z.boolean(),
+  })
+  .refine(values => values.timeLimit === 0 || values.timeLimit >= 10, {
+    message: 'Use at least 10 seconds, or 0 for no limit',
+    path: ['timeLimit'],
+  }) as z.ZodType<CustomModeValues>;
+
+const CUSTOM_MODES_KEY = 'neonDashCustomModes';
+const BOARD_PREFIX = 'custom-';
+
+export const toModeConfig = (values: CustomModeValues): ModeConfig => ({
+  timeLimit: values.timeLimit || Infinity,
+  targetScore: values.targetScore || Infinity,
+  // Custom rules don't set a race distance; laps are counted but never end the run
+  laps: Infinity,
+  trackLength: getModeConfig('custom').trackLength,
+  enemies: values.enemies,
+  maxSpeed: values.maxSpeed,
+  hasNitro: values.hasNitro,
+  hasHealth: values.hasHealth,
+  aggressiveAI: values.aggressiveAI,
+});
+
+const defaults = getModeConfig('custom');
+
+export const DEFAULT_CUSTOM_MODE: CustomModeValues = {
+  name: '',
+  timeLimit: defaults.timeLimit,
+  targetScore: defaults.targetScore,
+  enemies: defaults.enemies,
+  maxSpeed: defaults.maxSpeed,
+  hasNitro: defaults.hasNitro,
+  hasHealth: defaults.hasHealth,
+  aggressiveAI: defaults.aggressiveAI,
+};
+
+// The rules in a fixed order; the name is deliberately left out
+const rulesOf = (values: CustomModeValues) => [
+  values.timeLimit,
+  values.targetScore,
+  values.enemies,
+  values.maxSpeed,
+  (values.hasNitro ? 1 : 0) | (values.hasHealth ? 2 : 0) | (values.aggressiveAI ? 4 : 0),
+];
+
+/** FNV-1a over the rules, as 8 hex digits. Same rules, same hash. */
+export const hashCustomMode = (values: CustomModeValues) => {
+  const text = rulesOf(values).join(',');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Leaderboard table for a custom mode. */
+export const customBoardId = (id: string) => `${BOARD_PREFIX}${id}`;
+
+/** The custom mode id in a board id, or null for built-in boards. */
+export const parseCustomBoardId = (board: string) => {
+  const match = new RegExp(`^${BOARD_PREFIX}([0-9a-f]{8})$`).exec(board);
+  return match ? match[1] : null;
+};
+
+/** URL-safe code for share links. */
+export const encodeCustomMode = (values: CustomModeValues) => {
+  const bytes = new TextEncoder().encode(JSON.stringify([values.name, ...rulesOf(values)]));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/** Reads a share code, returning null if it is malformed or out of range. */
+export const decodeCustomMode = (code: string): CustomModeValues | null => {
+  try {
+    const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    const [name, timeLimit, targetScore, enemies, maxSpeed, flags] = JSON.parse(new TextDecoder().decode(bytes));
+    const result = customModeSchema.safeParse({
+      name,
+      timeLimit,
+      targetScore,
+      enemies,
+      maxSpeed,
+      hasNitro: (flags & 1) !== 0,
+      hasHealth: (flags & 2) !== 0,
+      aggressiveAI: (flags & 4) !== 0,
+    });
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadCustomModes = (): CustomMode[] => {
+  try {
+    const saved = localStorage.getItem(CUSTOM_MODES_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.error('Failed to load custom modes:', error);
+  }
+  return [];
+};
+
+const saveCustomModes = (modes: CustomMode[]) => {
+  try {
+    localStorage.setItem(CUSTOM_MODES_KEY, JSON.stringify(modes));
+  } catch (error) {
+    console.error('Failed to save custom modes:', error);
+  }
+};
+
+export const findCustomMode = (id: string) => loadCustomModes().find(mode => mode.id === id) ?? null;
+
+/**
+ * Saves `values` as a custom mode. Modes with the same rules share an id, so
+ * saving them again only renames the existing entry.
+ */
+export const saveCustomMode = (values: CustomModeValues): CustomMode => {
+  const id = hashCustomMode(values);
+  const modes = loadCustomModes();
+  const existing = modes.find(mode => mode.id === id);
+  const saved: CustomMode = { ...values, id, createdAt: existing?.createdAt ?? new Date().toISOString() };
+
+  saveCustomModes(existing ? modes.map(mode => (mode.id === id ? saved : mode)) : [...modes, saved]);
+  return saved;
+};
+
+export const deleteCustomMode = (id: string) => {
+  saveCustomModes(loadCustomModes().filter(mode => mode.id !== id));
+};
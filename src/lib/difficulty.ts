@@ -0,0 +1,29 @@
+// Difficulty curves for modes that get harder the further you drive. A curve
+// is a list of tiers, each taking over once the player's position passes its
+// `from`; tuning a mode's progression means editing its table, not the loop.
+
+export interface DifficultyTier {
+  name: string;
+  from: number; // Position at which the tier starts
+  enemies: number; // Cars on the road
+  enemySpeed: [number, number]; // Speed range for newly spawned cars
+  laneChange: number; // Chance per second that a car switches lanes
+  aggressiveness: number; // 0 to 1; how eagerly cars cut into the player's lane
+}
+
+export const ENDLESS_DIFFICULTY: DifficultyTier[] = [
+  { name: 'Cruising', from: 0, enemies: 6, enemySpeed: [3, 5], laneChange: 0, aggressiveness: 0 },
+  { name: 'Commute', from: 20000, enemies: 8, enemySpeed: [3, 6], laneChange: 0.1, aggressiveness: 0 },
+  { name: 'Rush Hour', from: 50000, enemies: 10, enemySpeed: [4, 7], laneChange: 0.2, aggressiveness: 0.2 },
+  { name: 'Road Rage', from: 90000, enemies: 12, enemySpeed: [5, 8], laneChange: 0.3, aggressiveness: 0.4 },
+  { name: 'Mayhem', from: 140000, enemies: 14, enemySpeed: [6, 9], laneChange: 0.4, aggressiveness: 0.6 },
+];
+
+/** Index of the tier in effect at `position`. */
+export const getDifficultyTier = (curve: DifficultyTier[], position: number) => {
+  let tier = 0;
+  while (tier + 1 < curve.length && position >= curve[tier + 1].from) {
+    tier++;
+  }
+  return tier;
+};
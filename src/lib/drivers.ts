@@ -0,0 +1,227 @@
+// AI drivers for traffic and rivals. Each car runs the same small set of
+// behaviours (keep the lane, hold a following distance, overtake, block,
+// brake), and its personality sets how eagerly it does each of them.
+//
+// Traffic lives in world space and its `speed` is how fast it drops back
+// towards the player, so a car "brakes" by raising it and the car in front
+// of another is the one with the lower z.
+//
+// Lane changes are never instant: a car picks a target lane, signals for its
+// personality's signal time, then eases across.
+
+import { Random } from './random';
+import type { Enemy, Rival } from './simulation';
+
+export type Personality = 'cautious' | 'aggressive' | 'erratic';
+
+export interface DriverTraits {
+  followDistance: number; // Gap kept to the car in front, in world units
+  overtake: number; // Chance per second to pull out around a slower car
+  block: number; // Chance per second to cut into the player's lane when close
+  wander: number; // Chance per second of an unprovoked lane change
+  brake: number; // How fast it sheds speed to match the car in front, per second
+  paceJitter: number; // Fraction of its pace that varies from moment to moment
+  signalTime: number; // Seconds of indicating before a lane change; at least one indicator flash
+}
+
+/** The lane-change state shared by traffic and rivals. */
+export interface LaneChange {
+  x: number;
+  lane: number; // Lane it is in, or leaving
+  targetLane: number; // Lane it is moving to; equal to `lane` when settled
+  signalTime: number; // Seconds of signalling left before it moves
+}
+
+export const PERSONALITIES: Record<Personality, DriverTraits> = {
+  cautious: { followDistance: 8, overtake: 0.2, block: 0, wander: 0, brake: 150, paceJitter: 0.04, signalTime: 0.8 },
+  aggressive: { followDistance: 3, overtake: 1.5, block: 1, wander: 0.05, brake: 60, paceJitter: 0.06, signalTime: 0.5 },
+  erratic: { followDistance: 5, overtake: 0.6, block: 0.3, wander: 0.5, brake: 100, paceJitter: 0.15, signalTime: 0.35 },
+};
+
+export interface DriverContext {
+  lanes: number[];
+  playerX: number;
+  traffic: Enemy[]; // Every traffic car, the driver included
+  canBlock: boolean; // Mode allows cars to cut the player off
+  laneChange: number; // Extra wandering per second from the difficulty tier
+  dt: number;
+  ticks: number; // Ticks in `dt`; speeds are per tick
+  random: Random;
+}
+
+// Traffic between these distances ahead of the player (in z) may try to block.
+// Only cars that have just appeared block, so the whole signal and move play
+// out in front of the player.
+const BLOCK_NEAR = 20;
+const BLOCK_FAR = 30;
+// World units per second a car moves sideways once it has signalled; about a
+// quarter of a second per lane
+const LANE_CHANGE_SPEED = 8;
+// Rivals this far ahead of the player (in position) may try to block
+const RIVAL_BLOCK_RANGE = 150;
+const CAR_LENGTH = 1.6; // As in the simulation's collision box
+// Ticks of closing speed a driver looks ahead when judging gaps
+const LOOKAHEAD = 4;
+
+/** Most cars drive carefully; aggression makes aggressive drivers likelier. */
+export const choosePersonality = (random: Random, aggressiveness: number): Personality => {
+  const roll = random.next();
+  if (roll < aggressiveness) return 'aggressive';
+  if (roll < aggressiveness + 0.2) return 'erratic';
+  return 'cautious';
+};
+
+export const laneOf = (lanes: number[], x: number) => {
+  let closest = 0;
+  lanes.forEach((lane, index) => {
+    if (Math.abs(lane - x) < Math.abs(lanes[closest] - x)) closest = index;
+  });
+  return closest;
+};
+
+// A car changing lanes counts as being in both
+const occupies = (car: LaneChange, lane: number) => car.lane === lane || car.targetLane === lane;
+
+// Closing speed between two cars, per tick; positive when the gap shrinks
+const closing = (enemy: Enemy, other: Enemy) => (other.z < enemy.z ? other.speed - enemy.speed : enemy.speed - other.speed);
+
+// The nearest car in front within `range`, stretched by how fast it is closing
+const carAhead = (enemy: Enemy, lane: number, traffic: Enemy[], range: number) =>
+  traffic
+    .filter(other =>
+      other !== enemy &&
+      occupies(other, lane) &&
+      other.z < enemy.z &&
+      enemy.z - other.z < range + Math.max(0, closing(enemy, other)) * LOOKAHEAD
+    )
+    .reduce<Enemy | undefined>((nearest, other) => (!nearest || other.z > nearest.z ? other : nearest), undefined);
+
+const laneIsClear = (enemy: Enemy, lane: number, traffic: Enemy[], range: number) =>
+  !traffic.some(other =>
+    other !== enemy &&
+    occupies(other, lane) &&
+    Math.abs(other.z - enemy.z) < range + Math.max(0, closing(enemy, other)) * LOOKAHEAD
+  );
+
+// Whether a car in the target lane is alongside or closing in; one pulling
+// away only counts while they still overlap
+const gapClosed = (enemy: Enemy, traffic: Enemy[], range: number) =>
+  traffic.some(other => {
+    if (other === enemy || !occupies(other, enemy.targetLane)) return false;
+    const rate = closing(enemy, other);
+    return Math.abs(other.z - enemy.z) < (rate < 0 ? CAR_LENGTH : range + rate * LOOKAHEAD);
+  });
+
+const neighbourLanes = (lanes: number[], lane: number) =>
+  [lane - 1, lane + 1].filter(candidate => candidate >= 0 && candidate < lanes.length);
+
+/** -1 while indicating or moving left, 1 for right, 0 when settled in a lane. */
+export const signalDirection = (car: LaneChange) => Math.sign(car.targetLane - car.lane);
+
+const beginLaneChange = <T extends LaneChange>(car: T, lane: number, traits: DriverTraits): T =>
+  lane === car.targetLane ? car : { ...car, targetLane: lane, signalTime: traits.signalTime };
+
+// Lane keeping: signal, then slide to the target lane and settle there
+const steerToLane = <T extends LaneChange>(car: T, lanes: number[], dt: number): T => {
+  if (car.targetLane === car.lane) return { ...car, x: lanes[car.lane] };
+  if (car.signalTime > 0) return { ...car, signalTime: Math.max(car.signalTime - dt, 0) };
+
+  const target = lanes[car.targetLane];
+  const step = LANE_CHANGE_SPEED * dt;
+  if (Math.abs(target - car.x) <= step) return { ...car, x: target, lane: car.targetLane };
+  return { ...car, x: car.x + Math.sign(target - car.x) * step };
+};
+
+/** One tick of a traffic car's driving. */
+export const driveEnemy = (enemy: Enemy, context: DriverContext): Enemy => {
+  const { lanes, playerX, traffic, canBlock, laneChange, dt, ticks, random } = context;
+  const traits = PERSONALITIES[enemy.personality];
+  const range = traits.followDistance + CAR_LENGTH;
+  const settled = enemy.targetLane === enemy.lane;
+  let { speed } = enemy;
+  let lane = enemy.targetLane;
+
+  // Following distance: brake for a slower car in front, or overtake it
+  const leader = carAhead(enemy, lane, traffic, range);
+  if (leader && leader.speed > speed) {
+    const openLanes = neighbourLanes(lanes, lane).filter(candidate => laneIsClear(enemy, candidate, traffic, range));
+    if (settled && openLanes.length > 0 && random.next() < traits.overtake * dt) {
+      lane = random.pick(openLanes);
+    } else {
+      // Match its pace outright if the gap would close within a tick
+      const urgent = enemy.z - leader.z - (leader.speed - speed) < CAR_LENGTH * 1.5;
+      speed = urgent ? leader.speed : Math.min(leader.speed, speed + traits.brake * dt);
+    }
+  } else {
+    // Back to its own pace once the road ahead is clear
+    const pace = enemy.cruiseSpeed * (1 + random.range(-traits.paceJitter, traits.paceJitter));
+    speed += (pace - speed) * Math.min(1, 2 * dt);
+  }
+
+  // Blocking: cut into the player's lane from the next lane over
+  const playerLane = laneOf(lanes, playerX);
+  if (
+    canBlock &&
+    settled &&
+    lane === enemy.lane &&
+    enemy.z < -BLOCK_NEAR &&
+    enemy.z > -BLOCK_FAR &&
+    Math.abs(lane - playerLane) === 1 &&
+    laneIsClear(enemy, playerLane, traffic, range) &&
+    // Easing off would run it into any car ahead in either lane
+    !carAhead(enemy, lane, traffic, BLOCK_FAR) &&
+    !carAhead(enemy, playerLane, traffic, BLOCK_FAR) &&
+    random.next() < traits.block * enemy.aggressiveness * 18 * dt
+  ) {
+    lane = playerLane;
+
+    // Ease off so it is across, and settled in front, before the player
+    // reaches it; it then keeps that pace until it drops behind
+    const warning = traits.signalTime + Math.abs(lanes[playerLane] - enemy.x) / LANE_CHANGE_SPEED;
+    const ticksPerSecond = ticks / dt;
+    const pace = (-enemy.z - CAR_LENGTH) / (warning * ticksPerSecond * (1 + traits.paceJitter));
+    const blocker = { ...enemy, speed: Math.min(speed, pace), cruiseSpeed: Math.min(enemy.cruiseSpeed, pace) };
+    return steerToLane(beginLaneChange(blocker, lane, traits), lanes, dt);
+  }
+
+  // Call off a signalled lane change if the gap has closed
+  if (!settled && enemy.signalTime > 0 && gapClosed(enemy, traffic, range)) {
+    return steerToLane({ ...enemy, speed, targetLane: enemy.lane, signalTime: 0 }, lanes, dt);
+  }
+
+  // Wandering, from the personality and the difficulty tier
+  if (settled && lane === enemy.lane && random.next() < (traits.wander + laneChange) * dt) {
+    const openLanes = neighbourLanes(lanes, lane).filter(candidate => laneIsClear(enemy, candidate, traffic, range));
+    if (openLanes.length > 0) lane = random.pick(openLanes);
+  }
+
+  return steerToLane(beginLaneChange({ ...enemy, speed }, lane, traits), lanes, dt);
+};
+
+/** One tick of a rival's pace and line; rivals only interact with the player. */
+export const driveRival = (
+  rival: Rival,
+  context: Pick<DriverContext, 'lanes' | 'playerX' | 'canBlock' | 'dt' | 'ticks' | 'random'> & {
+    playerPosition: number;
+  }
+): Rival => {
+  const { lanes, playerX, playerPosition, canBlock, dt, ticks, random } = context;
+  const traits = PERSONALITIES[rival.personality];
+
+  const pace = rival.topSpeed * (1 - random.range(0, traits.paceJitter * 2));
+  const speed = Math.min(rival.speed + 0.3 * ticks, pace);
+
+  // Blocking: move across in front of a player who is closing in
+  let lane = rival.targetLane;
+  const lead = rival.position - playerPosition;
+  if (rival.targetLane === rival.lane) {
+    if (canBlock && lead > 0 && lead < RIVAL_BLOCK_RANGE && random.next() < traits.block * dt) {
+      lane = laneOf(lanes, playerX);
+    } else if (random.next() < traits.wander * dt) {
+      lane = random.pick(neighbourLanes(lanes, lane));
+    }
+  }
+
+  const steered = steerToLane(beginLaneChange(rival, lane, traits), lanes, dt);
+  return { ...steered, speed, position: rival.position + speed * ticks };
+};
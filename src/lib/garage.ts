@@ -0,0 +1,168 @@
+// The garage: every car the player can drive, defined once. A car's stats
+// scale the mode's rules (top speed, the vehicle model, collision damage),
+// its body shapes the Car3D model, and stars earned in missions unlock it.
+
+import { ModeConfig } from './modes';
+import { DEFAULT_VEHICLE } from './vehicle';
+import { loadBestStars } from './missions';
+
+export type SpoilerType = 'none' | 'lip' | 'wing';
+
+/** Car3D proportions, in world units. */
+export interface CarBody {
+  width: number;
+  height: number;
+  length: number;
+  roofWidth: number;
+  roofHeight: number;
+  roofLength: number;
+  roofOffset: number; // z of the roof's centre; negative sits it toward the tail
+  spoiler: SpoilerType;
+  wheelRadius: number;
+}
+
+/** Ratings from 1 to 5; 3 drives exactly as the mode is tuned. */
+export interface CarStats {
+  topSpeed: number;
+  acceleration: number;
+  handling: number;
+  durability: number;
+}
+
+export interface CarDefinition {
+  name: string;
+  description: string;
+  stats: CarStats;
+  body: CarBody;
+  unlockStars: number; // Total mission stars needed to drive it
+}
+
+export const STAT_MAX = 5;
+
+export const STAT_LABELS: Record<keyof CarStats, string> = {
+  topSpeed: 'Top Speed',
+  acceleration: 'Acceleration',
+  handling: 'Handling',
+  durability: 'Durability',
+};
+
+// Health lost per collision by a car of average durability
+const BASE_DAMAGE = 10;
+
+const defineCars = <T extends Record<string, CarDefinition>>(cars: T) => cars;
+
+// Garage order
+export const CARS = defineCars({
+  runner: {
+    name: 'Neon Runner',
+    description: 'The all-rounder every driver starts in.',
+    stats: { topSpeed: 3, acceleration: 3, handling: 3, durability: 3 },
+    body: {
+      width: 0.8, height: 0.3, length: 1.6,
+      roofWidth: 0.6, roofHeight: 0.2, roofLength: 0.8, roofOffset: -0.2,
+      spoiler: 'lip', wheelRadius: 0.15,
+    },
+    unlockStars: 0,
+  },
+  hatch: {
+    name: 'Pocket Rocket',
+    description: 'A tiny hatchback that darts through gaps but tops out early.',
+    stats: { topSpeed: 2, acceleration: 5, handling: 4, durability: 2 },
+    body: {
+      width: 0.75, height: 0.35, length: 1.3,
+      roofWidth: 0.65, roofHeight: 0.25, roofLength: 0.8, roofOffset: -0.15,
+      spoiler: 'none', wheelRadius: 0.13,
+    },
+    unlockStars: 0,
+  },
+  muscle: {
+    name: 'Thunderbolt',
+    description: 'Long, heavy and brutally fast in a straight line.',
+    stats: { topSpeed: 4, acceleration: 4, handling: 2, durability: 4 },
+    body: {
+      width: 0.9, height: 0.32, length: 1.8,
+      roofWidth: 0.6, roofHeight: 0.18, roofLength: 0.6, roofOffset: -0.3,
+      spoiler: 'lip', wheelRadius: 0.18,
+    },
+    unlockStars: 3,
+  },
+  armoured: {
+    name: 'Ironclad',
+    description: 'An armoured truck that shrugs off hits and little else.',
+    stats: { topSpeed: 2, acceleration: 2, handling: 2, durability: 5 },
+    body: {
+      width: 0.9, height: 0.45, length: 1.7,
+      roofWidth: 0.8, roofHeight: 0.3, roofLength: 1.1, roofOffset: -0.15,
+      spoiler: 'none', wheelRadius: 0.2,
+    },
+    unlockStars: 6,
+  },
+  hyper: {
+    name: 'Phantom GT',
+    description: 'A low, winged hypercar. Blistering, and made of glass.',
+    stats: { topSpeed: 5, acceleration: 5, handling: 4, durability: 1 },
+    body: {
+      width: 0.85, height: 0.22, length: 1.75,
+      roofWidth: 0.5, roofHeight: 0.15, roofLength: 0.6, roofOffset: -0.1,
+      spoiler: 'wing', wheelRadius: 0.16,
+    },
+    unlockStars: 10,
+  },
+});
+
+export type CarId = keyof typeof CARS;
+
+export const CAR_IDS = Object.keys(CARS) as CarId[];
+
+export const DEFAULT_CAR: CarId = 'runner';
+
+const SELECTED_CAR_KEY = 'neonDashCar';
+
+export const isCarId = (value: string): value is CarId => (CAR_IDS as string[]).includes(value);
+
+export const getCar = (car: CarId): CarDefinition => CARS[car];
+
+/**
+ * `config` as driven in `car`. Each point of a stat away from 3 scales the
+ * matching rule by a fixed step, so the default car leaves the mode as tuned.
+ */
+export const applyCar = (config: ModeConfig, car: CarId): ModeConfig => {
+  const { topSpeed, acceleration, handling, durability } = CARS[car].stats;
+  const vehicle = { ...DEFAULT_VEHICLE, ...config.vehicle };
+
+  return {
+    ...config,
+    maxSpeed: config.maxSpeed * (1 + (topSpeed - 3) * 0.06),
+    damage: (config.damage ?? BASE_DAMAGE) * (1 - (durability - 3) * 0.2),
+    vehicle: {
+      ...config.vehicle,
+      acceleration: vehicle.acceleration * (1 + (acceleration - 3) * 0.12),
+      steering: vehicle.steering * (1 + (handling - 3) * 0.08),
+      grip: vehicle.grip * (1 + (handling - 3) * 0.1),
+    },
+  };
+};
+
+export const countStars = () =>
+  Object.values(loadBestStars()).reduce<number>((total, stars) => total + (stars ?? 0), 0);
+
+export const isCarUnlocked = (car: CarId, stars: number) => stars >= CARS[car].unlockStars;
+
+/** The player's chosen car, falling back to the default if it is unknown or locked. */
+export const loadSelectedCar = (): CarId => {
+  try {
+    const saved = localStorage.getItem(SELECTED_CAR_KEY);
+    if (saved && isCarId(saved) && isCarUnlocked(saved, countStars())) return saved;
+  } catch (error) {
+    console.error('Failed to load selected car:', error);
+  }
+  return DEFAULT_CAR;
+};
+
+export const saveSelectedCar = (car: CarId) => {
+  try {
+    localStorage.setItem(SELECTED_CAR_KEY, car);
+  } catch (error) {
+    console.error('Failed to save selected car:', error);
+  }
+};
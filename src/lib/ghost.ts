@@ -0,0 +1,50 @@
+// Personal-best ghosts for the timed modes. The best run per mode is kept
+// with a per-tick trace of the player's lateral and forward position.
+
+import { GAME_MODES, GameMode, getMode } from './modes';
+import { SimulationState } from './simulation';
+import { createModeRecords } from './records';
+
+/** [playerX, position] after each tick; index 0 is the starting grid. */
+export type GhostSample = [number, number];
+
+export interface GhostRun {
+  mode: GameMode;
+  seed: number;
+  score: number;
+  time: number;
+  date: string;
+  trace: GhostSample[];
+}
+
+export const GHOST_MODES = GAME_MODES.filter(mode => getMode(mode).hasGhost);
+
+const GHOSTS_KEY = 'neonDashGhosts';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** A state's entry in a ghost trace; record one per tick while the run plays. */
+export const traceSample = (state: SimulationState): GhostSample => [round(state.playerX), round(state.position)];
+
+/** Ghost position at a fractional tick, or null once its run has ended. */
+export const ghostSampleAt = (trace: GhostSample[], tick: number) => {
+  if (tick < 0 || tick > trace.length - 1) return null;
+
+  const index = Math.floor(tick);
+  const [x, position] = trace[index];
+  const next = trace[index + 1];
+  if (!next) return { x, position };
+
+  const alpha = tick - index;
+  return {
+    x: x + (next[0] - x) * alpha,
+    position: position + (next[1] - position) * alpha,
+  };
+};
+
+const ghosts = createModeRecords<GhostRun>(GHOSTS_KEY, 'ghosts', (run, best) => !best || run.score > best.score);
+
+export const loadGhost = (mode: GameMode): GhostRun | null => ghosts.load()[mode] ?? null;
+
+/** Keeps `run` to race against next time if it outscored the mode's ghost; true when it did. */
+export const savePersonalBest = (run: GhostRun) => GHOST_MODES.includes(run.mode) && ghosts.save(run.mode, run);
@@ -0,0 +1,287 @@
+// Maps physical inputs (keyboard keys, standard-mapping gamepads, on-screen
+// touch controls and device tilt) to game actions. Continuous actions are read once per frame; pause and back are
+// edge-triggered and reported through `onAction`.
+
+import { SimulationInput } from './simulation';
+
+export type Action = 'steerLeft' | 'steerRight' | 'throttle' | 'brake' | 'nitro' | 'pause' | 'back';
+
+export const ACTIONS: Action[] = ['steerLeft', 'steerRight', 'throttle', 'brake', 'nitro', 'pause', 'back'];
+
+export const ACTION_LABELS: Record<Action, string> = {
+  steerLeft: 'Steer Left',
+  steerRight: 'Steer Right',
+  throttle: 'Accelerate',
+  brake: 'Brake',
+  nitro: 'Nitro',
+  pause: 'Start / Pause',
+  back: 'Back',
+};
+
+/** `KeyboardEvent.code` values bound to each action. */
+export type KeyBindings = Record<Action, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  steerLeft: ['ArrowLeft', 'KeyA'],
+  steerRight: ['ArrowRight', 'KeyD'],
+  throttle: ['ArrowUp', 'KeyW'],
+  brake: ['ArrowDown', 'KeyS'],
+  nitro: ['ShiftLeft', 'ShiftRight'],
+  pause: ['Space'],
+  back: ['Escape'],
+};
+
+export const MAX_KEYS_PER_ACTION = 2;
+
+// Without a key for these a keyboard player can't start, pause or leave a run
+export const REQUIRED_ACTIONS: Action[] = ['pause', 'back'];
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+const PAD = {
+  a: 0,
+  rightBumper: 5,
+  leftTrigger: 6,
+  rightTrigger: 7,
+  select: 8,
+  start: 9,
+  dpadUp: 12,
+  dpadDown: 13,
+  dpadLeft: 14,
+  dpadRight: 15,
+  leftStickX: 0,
+};
+
+export interface InputOptions {
+  bindings: KeyBindings;
+  gamepadEnabled: boolean;
+  deadzone: number;
+  tiltEnabled: boolean;
+  tiltCenter: number; // Degrees of tilt treated as straight ahead
+  tiltSensitivity: number; // Degrees away from the centre for full lock
+}
+
+export interface InputController {
+  /** Current continuous input, combining keyboard and gamepad. */
+  read: () => SimulationInput;
+  /** Polls gamepads for edge-triggered actions; call once per frame. */
+  poll: () => void;
+  /** Latest state of the on-screen touch controls. */
+  setTouchInput: (input: SimulationInput) => void;
+  setOptions: (options: InputOptions) => void;
+  dispose: () => void;
+}
+
+/** Turns a key code into a short label such as "←" or "W". */
+export const formatKeyCode = (code: string) => {
+  const arrows: Record<string, string> = {
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+  };
+  if (arrows[code]) return arrows[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code === 'Space') return 'SPACE';
+  if (code === 'Escape') return 'ESC';
+  return code.replace(/(Left|Right)$/, ' $1').toUpperCase();
+};
+
+export const findBoundAction = (bindings: KeyBindings, code: string) =>
+  ACTIONS.find(action => bindings[action].includes(code));
+
+const leavesRequiredUnbound = (bindings: KeyBindings) =>
+  REQUIRED_ACTIONS.some(action => bindings[action].length === 0);
+
+/**
+ * Binds `code` to `action`. An action that already had `code` gets the key it
+ * replaces instead, or loses `code` if the slot was empty. Returns null when
+ * that would leave a required action without a key.
+ */
+export const rebindKey = (bindings: KeyBindings, action: Action, code: string, slot: number): KeyBindings | null => {
+  const replaced = bindings[action][slot];
+  const next = Object.fromEntries(
+    ACTIONS.map(other => [
+      other,
+      replaced && other !== action
+        ? bindings[other].map(existing => (existing === code ? replaced : existing))
+        : bindings[other].filter(existing => existing !== code),
+    ])
+  ) as KeyBindings;
+  const keys = [...next[action]];
+  keys[Math.min(slot, keys.length)] = code;
+  next[action] = keys.slice(0, MAX_KEYS_PER_ACTION);
+  return leavesRequiredUnbound(next) ? null : next;
+};
+
+/** Unbinds the key in `slot`, or returns null if `action` needs it. */
+export const clearKey = (bindings: KeyBindings, action: Action, slot: number): KeyBindings | null => {
+  const next = { ...bindings, [action]: bindings[action].filter((_, index) => index !== slot) };
+  return leavesRequiredUnbound(next) ? null : next;
+};
+
+const applyDeadzone = (value: number, deadzone: number) => {
+  if (Math.abs(value) < deadzone) return 0;
+  return Math.sign(value) * (Math.abs(value) - deadzone) / (1 - deadzone);
+};
+
+const TILT_DEADZONE = 0.05;
+
+/**
+ * Left/right tilt of the device in degrees, positive to the right, measured
+ * along whichever axis is horizontal in the current screen orientation.
+ */
+export const readTiltAngle = (event: DeviceOrientationEvent) => {
+  const angle = typeof screen !== 'undefined' && screen.orientation ? screen.orientation.angle : 0;
+  switch (angle) {
+    case 90:
+      return event.beta ?? 0;
+    case 180:
+      return -(event.gamma ?? 0);
+    case 270:
+      return -(event.beta ?? 0);
+    default:
+      return event.gamma ?? 0;
+  }
+};
+
+/**
+ * iOS only delivers orientation events after the page asks, and only from a
+ * user gesture. Resolves true when events will arrive.
+ */
+export const requestTiltPermission = async () => {
+  if (typeof DeviceOrientationEvent === 'undefined') return false;
+
+  const request = (DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<string> }).requestPermission;
+  if (!request) return true;
+
+  try {
+    return (await request()) === 'granted';
+  } catch (error) {
+    console.error('Failed to get tilt permission:', error);
+    return false;
+  }
+};
+
+const getGamepads = () =>
+  typeof navigator !== 'undefined' && navigator.getGamepads
+    ? navigator.getGamepads().filter((pad): pad is Gamepad => !!pad && pad.mapping === 'standard')
+    : [];
+
+export const createInputController = (
+  initialOptions: InputOptions,
+  onAction: (action: Action) => void
+): InputController => {
+  let options = initialOptions;
+  const pressed = new Set<string>();
+  const previousButtons = new Map<number, { pause: boolean; back: boolean }>();
+  let touch: SimulationInput | null = null;
+  let tiltAngle: number | null = null;
+
+  const isDown = (action: Action) => options.bindings[action].some(code => pressed.has(code));
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    // Leave typing in form fields alone
+    if (e.target instanceof HTMLInputElement) return;
+
+    const action = findBoundAction(options.bindings, e.code);
+    if (action) e.preventDefault();
+
+    if (!e.repeat && (action === 'pause' || action === 'back')) {
+      onAction(action);
+    }
+    pressed.add(e.code);
+  };
+
+  const handleKeyUp = (e: KeyboardEvent) => {
+    pressed.delete(e.code);
+  };
+
+  // Held keys never see their keyup once the window loses focus
+  const handleBlur = () => {
+    pressed.clear();
+  };
+
+  const handleOrientation = (e: DeviceOrientationEvent) => {
+    tiltAngle = e.gamma === null ? null : readTiltAngle(e);
+  };
+
+  window.addEventListener('keydown', handleKeyDown);
+  window.addEventListener('keyup', handleKeyUp);
+  window.addEventListener('blur', handleBlur);
+  window.addEventListener('deviceorientation', handleOrientation);
+
+  const read = (): SimulationInput => {
+    let steer = (isDown('steerRight') ? 1 : 0) - (isDown('steerLeft') ? 1 : 0);
+    let throttle = isDown('throttle') ? 1 : 0;
+    let brake = isDown('brake') ? 1 : 0;
+    let nitro = isDown('nitro');
+
+    if (options.gamepadEnabled) {
+      for (const pad of getGamepads()) {
+        const button = (index: number) => pad.buttons[index]?.value ?? 0;
+        const stick = applyDeadzone(pad.axes[PAD.leftStickX] ?? 0, options.deadzone);
+        const dpad = button(PAD.dpadRight) - button(PAD.dpadLeft);
+
+        if (Math.abs(stick) > Math.abs(steer)) steer = stick;
+        if (dpad !== 0 && steer === 0) steer = dpad;
+        throttle = Math.max(throttle, button(PAD.rightTrigger), button(PAD.dpadUp));
+        brake = Math.max(brake, button(PAD.leftTrigger), button(PAD.dpadDown));
+        nitro = nitro || button(PAD.a) > 0.5 || button(PAD.rightBumper) > 0.5;
+      }
+    }
+
+    if (touch) {
+      if (touch.steer !== 0) steer = touch.steer;
+      throttle = Math.max(throttle, touch.throttle);
+      brake = Math.max(brake, touch.brake);
+      nitro = nitro || touch.nitro;
+    }
+
+    if (options.tiltEnabled && tiltAngle !== null) {
+      const tilt = applyDeadzone(
+        Math.max(-1, Math.min(1, (tiltAngle - options.tiltCenter) / options.tiltSensitivity)),
+        TILT_DEADZONE
+      );
+      if (Math.abs(tilt) > Math.abs(steer)) steer = tilt;
+    }
+
+    return {
+      steer: Math.max(-1, Math.min(1, steer)),
+      throttle: Math.min(1, throttle),
+      brake: Math.min(1, brake),
+      nitro,
+    };
+  };
+
+  const poll = () => {
+    if (!options.gamepadEnabled) return;
+
+    for (const pad of getGamepads()) {
+      const pause = !!pad.buttons[PAD.start]?.pressed;
+      const back = !!pad.buttons[PAD.select]?.pressed;
+      const previous = previousButtons.get(pad.index);
+
+      if (pause && !previous?.pause) onAction('pause');
+      if (back && !previous?.back) onAction('back');
+      previousButtons.set(pad.index, { pause, back });
+    }
+  };
+
+  return {
+    read,
+    poll,
+    setTouchInput: (input) => {
+      touch = input;
+    },
+    setOptions: (next) => {
+      options = next;
+    },
+    dispose: () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      window.removeEventListener('deviceorientation', handleOrientation);
+    },
+  };
+};
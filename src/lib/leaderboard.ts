@@ -0,0 +1,104 @@
+// Local score persistence shared by the game-over flow and the Leaderboard
+// screen. Everything lives in localStorage under the keys below.
+
+import { GAME_MODES, GameMode } from './modes';
+import { clearReplays, pruneReplays } from './replay';
+
+export interface LeaderboardEntry {
+  id: string;
+  playerName: string;
+  score: number;
+  time: number;
+  mode: GameMode;
+  date: string;
+  rank: number;
+  replayId?: string;
+}
+
+/**
+ * Top-10 tables keyed by board: a built-in mode's name, or a custom mode's
+ * board id (see `customBoardId`).
+ */
+export type LeaderboardData = Record<string, LeaderboardEntry[]>;
+
+export interface ScoreSubmission {
+  playerName: string;
+  score: number;
+  time: number;
+  replayId?: string;
+}
+
+const LEADERBOARD_KEY = 'neonDashLeaderboard';
+const PLAYER_NAME_KEY = 'neonDashPlayerName';
+const MAX_ENTRIES = 10;
+
+export const createEmptyLeaderboard = (): LeaderboardData =>
+  Object.fromEntries(GAME_MODES.map(mode => [mode, []])) as LeaderboardData;
+
+export const loadLeaderboard = (): LeaderboardData => {
+  try {
+    const saved = localStorage.getItem(LEADERBOARD_KEY);
+    if (saved) {
+      return { ...createEmptyLeaderboard(), ...JSON.parse(saved) };
+    }
+  } catch (error) {
+    console.error('Failed to load leaderboard:', error);
+  }
+  return createEmptyLeaderboard();
+};
+
+const saveLeaderboard = (data: LeaderboardData) => {
+  try {
+    localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error('Failed to save leaderboard:', error);
+  }
+};
+
+/**
+ * Adds a finished run to its board's top-10 table (the mode's own table
+ * unless given). Returns the stored entry, or null when the score did not
+ * make the cut.
+ */
+export const recordScore = (
+  mode: GameMode,
+  submission: ScoreSubmission,
+  board: string = mode
+): LeaderboardEntry | null => {
+  const data = loadLeaderboard();
+  const newEntry: LeaderboardEntry = {
+    id: Date.now().toString(),
+    playerName: submission.playerName.trim() || 'Anonymous',
+    score: Math.floor(submission.score),
+    time: submission.time,
+    mode,
+    date: new Date().toISOString(),
+    rank: 0,
+    replayId: submission.replayId,
+  };
+
+  data[board] = [...(data[board] ?? []), newEntry]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_ENTRIES)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+  saveLeaderboard(data);
+
+  // Replays only live as long as their leaderboard entry
+  pruneReplays(new Set(
+    Object.values(data).flat().map(entry => entry.replayId).filter(Boolean)
+  ));
+
+  return data[board].find(entry => entry.id === newEntry.id) ?? null;
+};
+
+export const clearLeaderboard = () => {
+  localStorage.removeItem(LEADERBOARD_KEY);
+  clearReplays();
+};
+
+export const loadPlayerName = () => localStorage.getItem(PLAYER_NAME_KEY) ?? '';
+
+export const savePlayerName = (name: string) => {
+  localStorage.setItem(PLAYER_NAME_KEY, name);
+};
@@ -0,0 +1,46 @@
+// Mission targets and star ratings. Reaching a mode's targetScore completes
+// the mission for one (bronze) star; the final score of the run earns silver
+// and gold. The best rating per built-in mode is kept for the menu cards.
+
+import { GameMode, ModeConfig, getMode } from './modes';
+import { createModeRecords } from './records';
+
+export type StarRating = 0 | 1 | 2 | 3;
+
+export interface StarThresholds {
+  bronze: number;
+  silver: number;
+  gold: number;
+}
+
+const STARS_KEY = 'neonDashStars';
+
+/**
+ * Score thresholds for `config`, or null when it has no target. Custom modes
+ * have no tuned thresholds, so silver and gold scale from their target.
+ */
+export const getStarThresholds = (mode: GameMode, config: ModeConfig): StarThresholds | null => {
+  const bronze = config.targetScore;
+  if (!Number.isFinite(bronze)) return null;
+
+  const stars = mode === 'custom' ? undefined : getMode(mode).stars;
+  return {
+    bronze,
+    silver: stars?.silver ?? Math.round(bronze * 1.5),
+    gold: stars?.gold ?? bronze * 2,
+  };
+};
+
+export const rateScore = (score: number, thresholds: StarThresholds): StarRating => {
+  if (score >= thresholds.gold) return 3;
+  if (score >= thresholds.silver) return 2;
+  if (score >= thresholds.bronze) return 1;
+  return 0;
+};
+
+const bestStars = createModeRecords<StarRating>(STARS_KEY, 'star ratings', (stars, best) => stars > (best ?? 0));
+
+export const loadBestStars = bestStars.load;
+
+/** Records a run's rating for the menu card; true when it earned more stars than before. */
+export const saveStarRating = bestStars.save;
@@ -0,0 +1,195 @@
+// Every game mode, defined once. The simulation reads `config`, the menus and
+// leaderboard read the presentation fields; adding a mode is one entry here.
+
+import { DifficultyTier, ENDLESS_DIFFICULTY } from './difficulty';
+import { SpawnRules } from './spawner';
+import { VehicleParams } from './vehicle';
+
+export interface ModeConfig {
+  timeLimit: number;
+  targetScore: number;
+  laps: number; // Race ends after this many; Infinity to keep counting
+  trackLength: number; // Lap length in simulation position units
+  enemies: number;
+  maxSpeed: number;
+  hasNitro: boolean;
+  hasHealth: boolean;
+  damage?: number; // Health lost per collision where hasHealth; 10 when absent
+  aggressiveAI: boolean;
+  rivals?: number; // Named opponents racing for position
+  spawn?: Partial<SpawnRules>; // Overrides for the fair traffic spawner
+  difficultyCurve?: DifficultyTier[]; // Traffic that ramps up with distance; fixed when absent
+  vehicle?: Partial<VehicleParams>; // Handling overrides for the player's car
+}
+
+export type Difficulty = 'Easy' | 'Medium' | 'Hard' | 'Insane';
+
+export interface ModeDefinition {
+  title: string;
+  description: string;
+  difficulty: Difficulty;
+  features: string[];
+  color: string; // Tailwind colour name, e.g. 'game-neon-blue'
+  hasGhost: boolean; // Race a ghost of the personal best
+  listed: boolean; // Offered in the menu and leaderboard tabs
+  stars?: { silver: number; gold: number }; // Final scores for 2 and 3 stars; 1 star is config.targetScore
+  config: ModeConfig;
+}
+
+const defineModes = <T extends Record<string, ModeDefinition>>(modes: T) => modes;
+
+// Menu order
+export const MODES = defineModes({
+  classic: {
+    title: 'Classic Race',
+    description: 'The original racing experience with balanced difficulty.',
+    difficulty: 'Medium',
+    features: ['Standard AI cars', 'Progressive difficulty', 'Classic scoring'],
+    color: 'game-neon-blue',
+    hasGhost: false,
+    listed: true,
+    stars: { silver: 500000, gold: 750000 },
+    config: {
+      timeLimit: 90,
+      targetScore: 300000,
+      laps: 3,
+      trackLength: 24000,
+      enemies: 8,
+      maxSpeed: 15,
+      hasNitro: false,
+      hasHealth: false,
+      aggressiveAI: false,
+    },
+  },
+  timeAttack: {
+    title: 'Time Attack',
+    description: 'Race against the clock to achieve the highest score.',
+    difficulty: 'Hard',
+    features: ['Fast-paced action', 'Score multipliers', 'Precision driving'],
+    color: 'game-neon-yellow',
+    hasGhost: true,
+    listed: true,
+    stars: { silver: 350000, gold: 500000 },
+    config: {
+      timeLimit: 60,
+      targetScore: 200000,
+      laps: 3,
+      trackLength: 16000,
+      enemies: 8,
+      maxSpeed: 15,
+      hasNitro: false,
+      hasHealth: false,
+      aggressiveAI: false,
+      vehicle: { acceleration: 36, brakeForce: 36, highSpeedSteering: 0.6 }, // Quick off the line, nervous at the top
+    },
+  },
+  quickRace: {
+    title: 'Quick Race',
+    description: 'Short and intense racing session for quick thrills.',
+    difficulty: 'Easy',
+    features: ['Quick gameplay', 'Beginner friendly', 'Instant action'],
+    color: 'game-neon-green',
+    hasGhost: true,
+    listed: true,
+    stars: { silver: 175000, gold: 250000 },
+    config: {
+      timeLimit: 30,
+      targetScore: 100000,
+      laps: 2,
+      trackLength: 9000,
+      enemies: 6,
+      maxSpeed: 12,
+      hasNitro: false,
+      hasHealth: false,
+      aggressiveAI: false,
+      spawn: { minGap: 6, rowWindow: 4 }, // Roomier for beginners
+      vehicle: { grip: 16, highSpeedSteering: 0.85, slideThreshold: 7 }, // Planted and forgiving
+    },
+  },
+  endless: {
+    title: 'Endless Highway',
+    description: 'Drive as far as you can on an infinite highway.',
+    difficulty: 'Medium',
+    features: ['Endless gameplay', 'Increasing difficulty', 'Survival mode'],
+    color: 'game-neon-pink',
+    hasGhost: false,
+    listed: true,
+    config: {
+      timeLimit: Infinity,
+      targetScore: Infinity,
+      laps: Infinity,
+      trackLength: 30000,
+      enemies: 6,
+      maxSpeed: 18,
+      hasNitro: false,
+      hasHealth: false,
+      aggressiveAI: false,
+      difficultyCurve: ENDLESS_DIFFICULTY,
+      vehicle: { acceleration: 24, drag: 0.25, highSpeedSteering: 0.65 }, // A long-legged cruiser
+    },
+  },
+  competition: {
+    title: 'Competition Mode',
+    description: 'The ultimate challenge with aggressive AI, nitro boosts, and health system.',
+    difficulty: 'Insane',
+    features: ['Five named rivals', 'Aggressive AI traffic', 'Nitro boost system', 'Health & damage system', 'Live standings'],
+    color: 'game-racing-red',
+    hasGhost: false,
+    listed: true,
+    stars: { silver: 900000, gold: 1400000 },
+    config: {
+      timeLimit: 120,
+      targetScore: 500000,
+      laps: 5,
+      trackLength: 25000,
+      enemies: 15,
+      maxSpeed: 20,
+      hasNitro: true,
+      hasHealth: true,
+      aggressiveAI: true,
+      spawn: { minGap: 3, rowWindow: 2.5 }, // Tight packs
+      rivals: 5,
+      vehicle: { acceleration: 38, highSpeedSteering: 0.55, slideGrip: 0.3, slideThreshold: 4 }, // Fast and loose
+    },
+  },
+  // Player-built modes run with their own config; this entry supplies the
+  // presentation and the builder's starting values.
+  custom: {
+    title: 'Custom Mode',
+    description: 'Your own house rules, shareable as a link.',
+    difficulty: 'Medium',
+    features: ['Custom time limit and target', 'Pick traffic and top speed', 'Own leaderboard per ruleset'],
+    color: 'game-neon-green',
+    hasGhost: false,
+    listed: false,
+    config: {
+      timeLimit: 90,
+      targetScore: 300000,
+      laps: Infinity,
+      trackLength: 24000,
+      enemies: 8,
+      maxSpeed: 15,
+      hasNitro: false,
+      hasHealth: false,
+      aggressiveAI: false,
+    },
+  },
+});
+
+export type GameMode = keyof typeof MODES;
+
+/** The built-in modes offered in the menu, in menu order. */
+export const GAME_MODES = (Object.keys(MODES) as GameMode[]).filter(mode => MODES[mode].listed);
+
+export const isGameMode = (value: string): value is GameMode => (GAME_MODES as string[]).includes(value);
+
+export const getMode = (mode: GameMode): ModeDefinition => MODES[mode];
+
+export const getModeConfig = (mode: GameMode): ModeConfig => MODES[mode].config;
+
+/** "90 seconds", "2 minutes" or "Unlimited". */
+export const formatTimeLimit = (timeLimit: number) => {
+  if (timeLimit === Infinity) return 'Unlimited';
+  if (timeLimit > 60 && timeLimit % 60 === 0) return `${timeLimit / 60} minutes`;
+  return `${timeLimit} seconds`;
+};
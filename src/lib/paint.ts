@@ -0,0 +1,71 @@
+// Cosmetics for the player's car: paint, rims, spoiler and underglow. Purely
+// visual; none of it reaches the simulation. The choices are kept in the
+// player profile.
+
+import { z } from 'zod';
+import { CarBody } from './garage';
+
+export const RIM_STYLES = ['classic', 'spoke', 'turbine', 'solid'] as const;
+export const SPOILER_CHOICES = ['stock', 'none', 'lip', 'wing'] as const;
+
+export type RimStyle = (typeof RIM_STYLES)[number];
+export type SpoilerChoice = (typeof SPOILER_CHOICES)[number]; // 'stock' keeps the car's own
+
+// The game's neon palette, as used by the Tailwind `game-*` colours
+export const NEON_COLORS = {
+  'neon-blue': '#25d1f4',
+  'neon-pink': '#ff66e5',
+  'neon-green': '#3df53d',
+  'neon-yellow': '#ffe566',
+  'racing-red': '#f53d3d',
+} as const;
+
+export type NeonColor = keyof typeof NEON_COLORS;
+
+export const NEON_COLOR_NAMES = Object.keys(NEON_COLORS) as NeonColor[];
+
+// Swatches offered for body and accent paint
+export const PAINT_SWATCHES = [
+  '#ff0000', '#f53d3d', '#ff8800', '#ffe566', '#3df53d', '#25d1f4',
+  '#2244ff', '#8844ff', '#ff66e5', '#ffffff', '#888888', '#111111',
+];
+
+const hexColor = z.string().regex(/^#[0-9a-f]{6}$/i);
+
+export const paintSchema = z.object({
+  body: hexColor,
+  accent: hexColor,
+  rims: z.enum(RIM_STYLES),
+  spoiler: z.enum(SPOILER_CHOICES),
+  underglow: z.enum(NEON_COLOR_NAMES as [NeonColor, ...NeonColor[]]).nullable(),
+});
+
+export type Paint = z.infer<typeof paintSchema>;
+
+export const DEFAULT_PAINT: Paint = {
+  body: '#ff0000',
+  accent: '#ff0000',
+  rims: 'classic',
+  spoiler: 'stock',
+  underglow: null,
+};
+
+export const RIM_LABELS: Record<RimStyle, string> = {
+  classic: 'Classic',
+  spoke: 'Six Spoke',
+  turbine: 'Turbine',
+  solid: 'Solid Disc',
+};
+
+export const SPOILER_LABELS: Record<SpoilerChoice, string> = {
+  stock: 'Stock',
+  none: 'None',
+  lip: 'Lip',
+  wing: 'Wing',
+};
+
+/** `body` with the spoiler the player picked. */
+export const withSpoiler = (body: CarBody, spoiler: SpoilerChoice): CarBody =>
+  spoiler === 'stock' ? body : { ...body, spoiler };
+
+export const underglowColor = (paint: Paint) => (paint.underglow ? NEON_COLORS[paint.underglow] : undefined);
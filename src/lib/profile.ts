@@ -0,0 +1,133 @@
+// The player profile: everything about the player that outlives a run and
+// isn't a setting. Stored in localStorage as one zod-validated object, so a
+// damaged or older save falls back to defaults section by section.
+
+import { z } from 'zod';
+import { DEFAULT_PAINT, paintSchema } from './paint';
+import { GameMode } from './modes';
+import { SimulationState } from './simulation';
+
+/** Lifetime totals over every finished run. */
+export interface Career {
+  gamesPlayed: Partial<Record<GameMode, number>>;
+  distance: number; // Position units, as in the simulation
+  collisions: number;
+  nitroTime: number; // Seconds
+  perfectDriving: number; // Seconds
+  xp: number;
+}
+
+const careerSchema = z.object({
+  gamesPlayed: z.record(z.string(), z.number().int().min(0)),
+  distance: z.number().min(0),
+  collisions: z.number().int().min(0),
+  nitroTime: z.number().min(0),
+  perfectDriving: z.number().min(0),
+  xp: z.number().int().min(0),
+}) as z.ZodType<Career>;
+
+export const profileSchema = z.object({
+  paint: paintSchema,
+  career: careerSchema,
+});
+
+export type Profile = z.infer<typeof profileSchema>;
+
+export const DEFAULT_PROFILE: Profile = {
+  paint: DEFAULT_PAINT,
+  career: {
+    gamesPlayed: {},
+    distance: 0,
+    collisions: 0,
+    nitroTime: 0,
+    perfectDriving: 0,
+    xp: 0,
+  },
+};
+
+// XP needed to go from one level to the next grows by this much each level
+const LEVEL_STEP = 500;
+
+const PROFILE_KEY = 'neonDashProfile';
+
+export const loadProfile = (): Profile => {
+  try {
+    const saved = localStorage.getItem(PROFILE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return Object.fromEntries(
+        Object.entries(DEFAULT_PROFILE).map(([key, value]) => {
+          const section = profileSchema.shape[key as keyof Profile].safeParse({ ...value, ...parsed[key] });
+          return [key, section.success ? section.data : value];
+        })
+      ) as Profile;
+    }
+  } catch (error) {
+    console.error('Failed to load profile:', error);
+  }
+  return DEFAULT_PROFILE;
+};
+
+export const saveProfile = (profile: Profile) => {
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profileSchema.parse(profile)));
+  } catch (error) {
+    console.error('Failed to save profile:', error);
+  }
+};
+
+/** Reads, changes and writes back one part of the profile. */
+export const updateProfile = (update: (profile: Profile) => Partial<Profile>) => {
+  const profile = loadProfile();
+  const updated = { ...profile, ...update(profile) };
+  saveProfile(updated);
+  return updated;
+};
+
+/** Total XP needed to reach `level`; level 1 needs none. */
+export const xpForLevel = (level: number) => (LEVEL_STEP * (level - 1) * level) / 2;
+
+export const levelForXp = (xp: number) => {
+  let level = 1;
+  while (xp >= xpForLevel(level + 1)) level++;
+  return level;
+};
+
+/**
+ * XP for a finished run: a point per thousand score, two per second of
+ * perfect driving, and bonuses for completing the mission and the race.
+ */
+export const xpForRun = (state: SimulationState) =>
+  Math.floor(state.score / 1000) +
+  Math.floor(state.perfectDriving * 2) +
+  (state.targetReached ? 50 : 0) +
+  (state.finished ? 25 : 0);
+
+export interface RunReward {
+  xp: number;
+  level: number;
+  levelsGained: number;
+}
+
+/** Adds a finished run to the career totals and returns the XP it earned. */
+export const recordRun = (state: SimulationState): RunReward => {
+  const { career } = loadProfile();
+  const xp = xpForRun(state);
+  const before = levelForXp(career.xp);
+  const level = levelForXp(career.xp + xp);
+
+  updateProfile(() => ({
+    career: {
+      gamesPlayed: { ...career.gamesPlayed, [state.mode]: (career.gamesPlayed[state.mode] ?? 0) + 1 },
+      distance: career.distance + state.position,
+      collisions: career.collisions + state.collisions,
+      nitroTime: career.nitroTime + state.nitroTime,
+      perfectDriving: career.perfectDriving + state.perfectDriving,
+      xp: career.xp + xp,
+    },
+  }));
+  return { xp, level, levelsGained: level - before };
+};
+
+export const countGamesPlayed = (career: Career) =>
+  Object.values(career.gamesPlayed).reduce<number>((total, games) => total + (games ?? 0), 0);
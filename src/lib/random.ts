@@ -0,0 +1,45 @@
+// Seeded pseudo-random numbers (mulberry32). All gameplay and scenery
+// randomness goes through here so a run can be reproduced from its seed.
+
+export interface Random {
+  /** Float in [0, 1). */
+  next: () => number;
+  /** Integer in [0, max). */
+  int: (max: number) => number;
+  /** Float in [min, max). */
+  range: (min: number, max: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+  /** Internal state; pass back to `createRandom` to resume the sequence. */
+  state: () => number;
+}
+
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (max) => Math.floor(next() * max),
+    range: (min, max) => min + next() * (max - min),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    state: () => state,
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+export const formatSeed = (seed: number) =>
+  (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+
+export const parseSeed = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^[0-9a-fA-F]{1,8}$/.test(trimmed)) return null;
+  return parseInt(trimmed, 16) >>> 0;
+};
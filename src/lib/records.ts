@@ -0,0 +1,43 @@
+// Per-mode bests kept in localStorage, such as star ratings and ghost runs.
+// A new value only replaces the stored one when it beats it.
+
+import { GameMode } from './modes';
+
+export type ModeRecords<T> = Partial<Record<GameMode, T>>;
+
+/**
+ * Loader and saver for the bests stored under `key`. `beats` says whether a
+ * value should replace the mode's current best, if there is one; `name` is
+ * only for error messages.
+ */
+export const createModeRecords = <T>(
+  key: string,
+  name: string,
+  beats: (value: T, best: T | undefined) => boolean
+) => {
+  const load = (): ModeRecords<T> => {
+    try {
+      const saved = localStorage.getItem(key);
+      if (saved) return JSON.parse(saved);
+    } catch (error) {
+      console.error(`Failed to load ${name}:`, error);
+    }
+    return {};
+  };
+
+  /** Returns whether `value` became the mode's new best. */
+  const save = (mode: GameMode, value: T) => {
+    const records = load();
+    if (!beats(value, records[mode])) return false;
+
+    try {
+      localStorage.setItem(key, JSON.stringify({ ...records, [mode]: value }));
+      return true;
+    } catch (error) {
+      console.error(`Failed to save ${name}:`, error);
+      return false;
+    }
+  };
+
+  return { load, save };
+};
@@ -0,0 +1,170 @@
+// Input replays. A run is fully described by its mode, seed and the input
+// held on every simulation tick; playing it back re-runs the simulation.
+
+import { GameMode, getModeConfig } from './modes';
+import { CustomModeValues, toModeConfig } from './customModes';
+import { CarId, DEFAULT_CAR, applyCar } from './garage';
+import {
+  SimulationInput,
+  SimulationState,
+  TICK_DT,
+  createInitialState,
+  stepSimulation,
+} from './simulation';
+
+/** Run-length encoded input: [encoded input, number of ticks]. */
+export type InputRun = [number, number];
+
+export interface Replay {
+  id: string;
+  version?: number; // Missing on version 1 replays
+  mode: GameMode;
+  custom?: CustomModeValues; // Rules of a custom mode run
+  car?: CarId; // Missing on runs from before the garage, all in the default car
+  seed: number;
+  ticks: number;
+  inputs: InputRun[];
+  score: number;
+  time: number;
+  date: string;
+}
+
+export const REPLAY_VERSION = 2;
+
+const REPLAYS_KEY = 'neonDashReplays';
+
+// How often the player caches a snapshot so scrubbing doesn't re-simulate
+// the whole run.
+const CHECKPOINT_INTERVAL = 120;
+
+// Analog channels are stored in steps of 1/INPUT_STEPS. Live play feeds the
+// simulation `quantizeInput`-ed values so playback reproduces it exactly.
+const INPUT_STEPS = 32;
+
+const quantize = (value: number) => Math.round(value * INPUT_STEPS);
+
+export const encodeInput = (input: SimulationInput) =>
+  (quantize(input.steer) + INPUT_STEPS) |
+  (quantize(input.throttle) << 7) |
+  (quantize(input.brake) << 13) |
+  ((input.nitro ? 1 : 0) << 19);
+
+export const decodeInput = (code: number): SimulationInput => ({
+  steer: ((code & 0x7f) - INPUT_STEPS) / INPUT_STEPS,
+  throttle: ((code >> 7) & 0x3f) / INPUT_STEPS,
+  brake: ((code >> 13) & 0x3f) / INPUT_STEPS,
+  nitro: ((code >> 19) & 1) !== 0,
+});
+
+// Version 1 replays stored one on/off bit per key
+const decodeLegacyInput = (mask: number): SimulationInput => ({
+  steer: ((mask & 2) !== 0 ? 1 : 0) - ((mask & 1) !== 0 ? 1 : 0),
+  throttle: (mask & 4) !== 0 ? 1 : 0,
+  brake: (mask & 8) !== 0 ? 1 : 0,
+  nitro: (mask & 16) !== 0,
+});
+
+export const quantizeInput = (input: SimulationInput) => decodeInput(encodeInput(input));
+
+/** Appends `count` ticks of `input` to a recording, in place. */
+export const recordInput = (inputs: InputRun[], input: SimulationInput, count = 1) => {
+  if (count <= 0) return;
+  const code = encodeInput(input);
+  const last = inputs[inputs.length - 1];
+  if (last && last[0] === code) {
+    last[1] += count;
+  } else {
+    inputs.push([code, count]);
+  }
+};
+
+export const countTicks = (inputs: InputRun[]) =>
+  inputs.reduce((total, [, count]) => total + count, 0);
+
+/** Expands a recording to one decoded input per tick. */
+export const expandInputs = (inputs: InputRun[], version = REPLAY_VERSION): SimulationInput[] => {
+  const decode = version >= 2 ? decodeInput : decodeLegacyInput;
+  return inputs.flatMap(([code, count]) => Array.from({ length: count }, () => decode(code)));
+};
+
+export interface ReplayPlayer {
+  ticks: number;
+  /** Simulation state after `tick` ticks, clamped to the recording. */
+  stateAt: (tick: number) => SimulationState;
+}
+
+export const createReplayPlayer = (
+  replay: Pick<Replay, 'mode' | 'custom' | 'car' | 'seed' | 'inputs' | 'version'>
+): ReplayPlayer => {
+  const inputs = expandInputs(replay.inputs, replay.version ?? 1);
+  const rules = replay.custom ? toModeConfig(replay.custom) : getModeConfig(replay.mode);
+  const config = applyCar(rules, replay.car ?? DEFAULT_CAR);
+  const checkpoints: SimulationState[] = [createInitialState(replay.mode, replay.seed, config)];
+
+  // The last couple of states handed out, so forward playback (which asks
+  // for neighbouring ticks every frame) steps incrementally.
+  let recent: Array<{ tick: number; state: SimulationState }> = [];
+
+  const stateAt = (tick: number) => {
+    const target = Math.max(0, Math.min(Math.floor(tick), inputs.length));
+    const index = Math.min(Math.floor(target / CHECKPOINT_INTERVAL), checkpoints.length - 1);
+    let start = index * CHECKPOINT_INTERVAL;
+    let state = checkpoints[index];
+
+    for (const cached of recent) {
+      if (cached.tick <= target && cached.tick >= start) {
+        start = cached.tick;
+        state = cached.state;
+      }
+    }
+
+    for (let t = start; t < target; t++) {
+      state = stepSimulation(state, inputs[t], TICK_DT).state;
+      if ((t + 1) / CHECKPOINT_INTERVAL === checkpoints.length) {
+        checkpoints.push(state);
+      }
+    }
+
+    recent = [...recent.filter(cached => cached.tick !== target), { tick: target, state }].slice(-2);
+    return state;
+  };
+
+  return { ticks: inputs.length, stateAt };
+};
+
+export const loadReplays = (): Replay[] => {
+  try {
+    const saved = localStorage.getItem(REPLAYS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to load replays:', error);
+  }
+  return [];
+};
+
+const saveReplays = (replays: Replay[]) => {
+  try {
+    localStorage.setItem(REPLAYS_KEY, JSON.stringify(replays));
+  } catch (error) {
+    console.error('Failed to save replays:', error);
+  }
+};
+
+export const loadReplay = (id: string) => loadReplays().find(replay => replay.id === id) ?? null;
+
+export const saveReplay = (replay: Omit<Replay, 'id'>): Replay => {
+  const saved: Replay = { ...replay, id: `${Date.now()}-${replay.seed}` };
+  saveReplays([...loadReplays(), saved]);
+  return saved;
+};
+
+/** Drops every stored replay whose id is not in `keepIds`. */
+export const pruneReplays = (keepIds: Set<string>) => {
+  const replays = loadReplays();
+  const kept = replays.filter(replay => keepIds.has(replay.id));
+  if (kept.length !== replays.length) saveReplays(kept);
+};
+
+export const clearReplays = () => {
+  localStorage.removeItem(REPLAYS_KEY);
+};
@@ -0,0 +1,168 @@
+// Player settings: one zod schema, persisted to localStorage, with a small
+// subscribe/notify store so any screen (or non-React module) can read them.
+
+import { z } from 'zod';
+import { DEFAULT_KEY_BINDINGS, KeyBindings, MAX_KEYS_PER_ACTION } from './input';
+
+export const GRAPHICS_QUALITIES = ['low', 'medium', 'high'] as const;
+export const CAMERA_VIEWS = ['chase', 'close', 'overhead'] as const;
+export const SPEED_UNITS = ['mph', 'kmh'] as const;
+export const DISTANCE_UNITS = ['m', 'ft'] as const;
+export const TOUCH_CONTROL_MODES = ['auto', 'on', 'off'] as const;
+
+const keysSchema = z.array(z.string()).max(MAX_KEYS_PER_ACTION);
+// For REQUIRED_ACTIONS; a save that lost their keys falls back to the defaults
+const requiredKeysSchema = keysSchema.min(1);
+
+const keyBindingsSchema = z.object({
+  steerLeft: keysSchema,
+  steerRight: keysSchema,
+  throttle: keysSchema,
+  brake: keysSchema,
+  nitro: keysSchema,
+  pause: requiredKeysSchema,
+  back: requiredKeysSchema,
+}) as z.ZodType<KeyBindings>;
+
+export const settingsSchema = z.object({
+  controls: z.object({
+    autoAccelerate: z.boolean(),
+    pauseOnBlur: z.boolean(),
+    keyBindings: keyBindingsSchema,
+    gamepadEnabled: z.boolean(),
+    gamepadDeadzone: z.number().min(0).max(0.5),
+    touchControls: z.enum(TOUCH_CONTROL_MODES),
+    tiltSteering: z.boolean(),
+    tiltSensitivity: z.number().min(10).max(45),
+    tiltCenter: z.number().min(-45).max(45),
+  }),
+  graphics: z.object({
+    quality: z.enum(GRAPHICS_QUALITIES),
+  }),
+  audio: z.object({
+    masterVolume: z.number().min(0).max(100),
+    sfxVolume: z.number().min(0).max(100),
+    musicVolume: z.number().min(0).max(100),
+  }),
+  units: z.object({
+    speed: z.enum(SPEED_UNITS),
+    distance: z.enum(DISTANCE_UNITS),
+  }),
+  camera: z.object({
+    view: z.enum(CAMERA_VIEWS),
+    fov: z.number().min(50).max(100),
+    follow: z.number().min(0).max(1),
+  }),
+  hud: z.object({
+    showStats: z.boolean(),
+    showControlHints: z.boolean(),
+    showGhostDelta: z.boolean(),
+  }),
+});
+
+export type Settings = z.infer<typeof settingsSchema>;
+export type TouchControlMode = Settings['controls']['touchControls'];
+export type GraphicsQuality = Settings['graphics']['quality'];
+export type CameraView = Settings['camera']['view'];
+export type SpeedUnit = Settings['units']['speed'];
+export type DistanceUnit = Settings['units']['distance'];
+
+export const DEFAULT_SETTINGS: Settings = {
+  controls: {
+    autoAccelerate: false,
+    pauseOnBlur: true,
+    keyBindings: DEFAULT_KEY_BINDINGS,
+    gamepadEnabled: true,
+    gamepadDeadzone: 0.15,
+    touchControls: 'auto',
+    tiltSteering: false,
+    tiltSensitivity: 25,
+    tiltCenter: 0,
+  },
+  graphics: {
+    quality: 'high',
+  },
+  audio: {
+    masterVolume: 80,
+    sfxVolume: 80,
+    musicVolume: 60,
+  },
+  units: {
+    speed: 'mph',
+    distance: 'm',
+  },
+  camera: {
+    view: 'chase',
+    fov: 75,
+    follow: 0.3,
+  },
+  hud: {
+    showStats: true,
+    showControlHints: true,
+    showGhostDelta: true,
+  },
+};
+
+export interface GraphicsPreset {
+  dpr: number;
+  antialias: boolean;
+  sceneryDensity: number; // Fraction of trees, buildings and clouds drawn
+  fogFar: number;
+}
+
+export const GRAPHICS_PRESETS: Record<GraphicsQuality, GraphicsPreset> = {
+  low: { dpr: 1, antialias: false, sceneryDensity: 0.4, fogFar: 35 },
+  medium: { dpr: 1.5, antialias: true, sceneryDensity: 0.7, fogFar: 45 },
+  high: { dpr: 2, antialias: true, sceneryDensity: 1, fogFar: 50 },
+};
+
+const SETTINGS_KEY = 'neonDashSettings';
+
+/** Reads saved settings, falling back to defaults for anything missing or invalid. */
+export const loadSettings = (): Settings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      const merged = Object.fromEntries(
+        Object.entries(DEFAULT_SETTINGS).map(([key, value]) => [key, { ...value, ...parsed[key] }])
+      );
+      const result = settingsSchema.safeParse(merged);
+      if (result.success) return result.data;
+    }
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+const listeners: Array<(settings: Settings) => void> = [];
+
+let memoryState: Settings | null = null;
+
+export const getSettings = (): Settings => {
+  if (!memoryState) memoryState = loadSettings();
+  return memoryState;
+};
+
+export const saveSettings = (settings: Settings) => {
+  memoryState = settingsSchema.parse(settings);
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(memoryState));
+  } catch (error) {
+    console.error('Failed to save settings:', error);
+  }
+  listeners.forEach((listener) => {
+    listener(memoryState);
+  });
+};
+
+export const subscribeSettings = (listener: (settings: Settings) => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+};
@@ -0,0 +1,588 @@
+// Headless racing simulation. Everything in here is plain data in, plain data
+// out: no React, no DOM, no three.js. Renderers, tests and bots all drive the
+// same rules through `stepSimulation`.
+
+import { createRandom } from './random';
+import { GameMode, ModeConfig, getModeConfig } from './modes';
+import { getDifficultyTier } from './difficulty';
+import { LaneChange, Personality, choosePersonality, driveEnemy, driveRival } from './drivers';
+import { DEFAULT_SPAWN_RULES, PARKED_Z, SpawnRules, findSpawnSlot, isParked } from './spawner';
+import { DEFAULT_VEHICLE, VehicleParams, steeringAuthority, stepVehicle } from './vehicle';
+
+export interface Enemy extends LaneChange {
+  z: number;
+  speed: number;
+  color: string;
+  aggressiveness: number; // 0 to 1; scales how often it blocks where the mode allows
+  personality: Personality;
+  cruiseSpeed: number; // Speed it returns to on a clear road
+}
+
+/** A named opponent racing the same distance as the player. */
+export interface Rival extends LaneChange {
+  name: string;
+  color: string;
+  personality: Personality;
+  position: number;
+  speed: number;
+  topSpeed: number;
+  finishTime: number | null;
+}
+
+export interface Standing {
+  name: string;
+  color: string;
+  isPlayer: boolean;
+  position: number;
+  finishTime: number | null;
+}
+
+export interface SimulationState {
+  mode: GameMode;
+  config: ModeConfig; // The mode's rules, or a custom mode's
+  seed: number;
+  rngState: number;
+  score: number;
+  time: number;
+  speed: number;
+  position: number;
+  lap: number; // Current lap, from 1
+  lapStartTime: number;
+  lapTimes: number[]; // Splits of the completed laps, in seconds
+  bestLap: number; // Fastest split so far; Infinity before the first
+  gameOver: boolean;
+  finished: boolean; // Completed the mode's last lap
+  targetReached: boolean; // Score has passed the mode's targetScore
+  playerX: number;
+  lateralVelocity: number; // Player's sideways speed, units per second
+  sliding: boolean; // Tyres have let go and the car is drifting wide
+  enemies: Enemy[];
+  rivals: Rival[];
+  roadOffset: number;
+  nitroBoost: number; // Competition mode feature
+  health: number; // Competition mode feature
+  perfectDriving: number; // Seconds of perfect driving
+  perfectStreak: number; // Seconds of the current unbroken perfect-driving stretch
+  nitroTime: number; // Seconds spent boosting
+  nitroBurn: number; // Tank burned since the boost was last pressed
+  collisions: number; // Separate impacts, however long each lasted
+  lastCollision: number;
+  competitionRank: number; // Competition mode feature
+  difficultyTier: number; // Index into config.difficultyCurve
+}
+
+export interface SimulationInput {
+  steer: number; // -1 (full left) to 1 (full right)
+  throttle: number; // 0 to 1
+  brake: number; // 0 to 1
+  nitro: boolean;
+}
+
+export type SimulationEvent =
+  | { type: 'collision'; time: number; health: number; impact: boolean } // impact: first tick of a new hit
+  | { type: 'targetReached'; score: number; time: number }
+  | { type: 'lap'; lap: number; split: number; time: number }
+  | { type: 'difficulty'; tier: number; time: number }
+  | { type: 'nitroEmpty'; burned: number; time: number } // burned: tank used in this one burn
+  | { type: 'perfectStreak'; seconds: number; time: number } // An unbroken stretch ended
+  | { type: 'gameOver'; score: number; time: number };
+
+export interface StepResult {
+  state: SimulationState;
+  events: SimulationEvent[];
+}
+
+export interface FixedStepClock {
+  state: SimulationState;
+  /** State before the last tick, for interpolating between ticks. */
+  previous: SimulationState;
+  /** Unsimulated time carried over to the next frame, in seconds. */
+  accumulator: number;
+}
+
+export interface FixedStepResult extends FixedStepClock {
+  events: SimulationEvent[];
+  /** Number of ticks simulated this frame. */
+  ticks: number;
+}
+
+export const LANES = [-2, 0, 2];
+export const ENEMY_COLORS = ['#ff4444', '#44ff44', '#4444ff', '#ffff44', '#ff44ff', '#44ffff'];
+const RIVAL_NAMES = ['Vega', 'Nova', 'Blaze', 'Rook', 'Jinx', 'Kato', 'Mira', 'Dash', 'Orion', 'Sable'];
+const RIVAL_COLORS = ['#ff8800', '#00ff88', '#8844ff', '#ff0088', '#00ccff', '#ccff00'];
+
+export const NO_INPUT: SimulationInput = {
+  steer: 0,
+  throttle: 0,
+  brake: 0,
+  nitro: false,
+};
+
+// The simulation always advances in fixed ticks of this rate, whatever the
+// display refresh rate. Tuning values below are expressed per tick.
+export const TICK_RATE = 60;
+export const TICK_DT = 1 / TICK_RATE;
+
+// Longest frame we try to catch up on; anything beyond (a throttled or
+// backgrounded tab) is dropped rather than simulated in one burst.
+const MAX_FRAME_TIME = 0.25;
+
+const CAR_WIDTH = 0.8;
+const ROAD_EDGE = 4; // Furthest the player can steer from the centre
+const CAR_LENGTH = 1.6;
+
+// World units per unit of `position`, matching how fast the road lines scroll
+export const TRACK_SCALE = 2 / TICK_RATE;
+
+// Fraction of the slower car's speed the rear car keeps after running into a rival
+const RIVAL_KNOCK = 0.5;
+
+const settledIn = (lane: number): LaneChange => ({ x: LANES[lane], lane, targetLane: lane, signalTime: 0 });
+
+const spawnRulesFor = (config: ModeConfig): SpawnRules => ({ ...DEFAULT_SPAWN_RULES, ...config.spawn });
+
+const vehicleFor = (config: ModeConfig): VehicleParams => ({ ...DEFAULT_VEHICLE, ...config.vehicle });
+
+// Fairness is judged against how far the player can steer at their current speed
+const spawnContext = (traffic: Enemy[], playerX: number, lateralSpeed: number) => ({
+  lanes: LANES,
+  traffic,
+  playerX,
+  lateralSpeed,
+  roadEdge: ROAD_EDGE,
+  carWidth: CAR_WIDTH,
+  tickRate: TICK_RATE,
+});
+
+export const createInitialState = (
+  mode: GameMode,
+  seed: number,
+  config: ModeConfig = getModeConfig(mode)
+): SimulationState => {
+  const random = createRandom(seed);
+  const tier = config.difficultyCurve?.[0];
+
+  // Starting grid, one car every few units, each placed by the fair spawner
+  const rules = spawnRulesFor(config);
+  const lateralSpeed = steeringAuthority(vehicleFor(config), 5, config.maxSpeed);
+  const enemies: Enemy[] = [];
+  for (let i = 0; i < (tier ? tier.enemies : config.enemies); i++) {
+    const speed = tier ? random.range(...tier.enemySpeed) : random.range(3, 5);
+    const aggressiveness = tier ? tier.aggressiveness : config.aggressiveAI ? random.range(0.5, 1) : 0.2;
+    const slot = findSpawnSlot(speed * TICK_RATE, spawnContext(enemies, 0, lateralSpeed), { ...rules, near: -i * 3 - 5, far: -i * 3 - 8 }, random);
+    enemies.push({
+      ...settledIn(slot ? slot.lane : 0),
+      z: slot ? slot.z : PARKED_Z,
+      speed,
+      color: random.pick(ENEMY_COLORS),
+      aggressiveness,
+      personality: choosePersonality(random, aggressiveness),
+      cruiseSpeed: speed,
+    });
+  }
+
+  // Distinct names, each racer a little faster or slower than the player's top
+  // speed, lined up a car length apart ahead of the player, who starts at the back
+  const names = [...RIVAL_NAMES];
+  const rivals = Array.from({ length: config.rivals ?? 0 }, (_, i) => ({
+    name: names.splice(random.int(names.length), 1)[0],
+    color: RIVAL_COLORS[i % RIVAL_COLORS.length],
+    personality: choosePersonality(random, config.aggressiveAI ? 0.4 : 0.1),
+    ...settledIn(random.int(LANES.length)),
+    position: ((i + 1) * 2 * CAR_LENGTH) / TRACK_SCALE,
+    speed: 5,
+    topSpeed: config.maxSpeed * random.range(0.9, 1.12),
+    finishTime: null,
+  }));
+
+  return {
+    mode,
+    config,
+    seed,
+    rngState: random.state(),
+    score: 0,
+    time: 0,
+    speed: 5,
+    position: 0,
+    lap: 1,
+    lapStartTime: 0,
+    lapTimes: [],
+    bestLap: Infinity,
+    gameOver: false,
+    finished: false,
+    targetReached: false,
+    playerX: 0,
+    lateralVelocity: 0,
+    sliding: false,
+    enemies,
+    rivals,
+    roadOffset: 0,
+    nitroBoost: 100,
+    health: 100,
+    perfectDriving: 0,
+    perfectStreak: 0,
+    nitroTime: 0,
+    nitroBurn: 0,
+    collisions: 0,
+    lastCollision: 0,
+    competitionRank: 1,
+    difficultyTier: 0,
+  };
+};
+
+const overlaps = (ax: number, az: number, bx: number, bz: number) =>
+  Math.abs(ax - bx) < CAR_WIDTH && Math.abs(az - bz) < CAR_LENGTH;
+
+/** World z of a point at race distance `position`, relative to a player at `playerPosition`. */
+export const trackZ = (playerPosition: number, position: number) => (playerPosition - position) * TRACK_SCALE;
+
+/** A rival's z relative to the player, from the gap in race distance. */
+export const rivalZ = (position: number, rival: Rival) => trackZ(position, rival.position);
+
+/** Rivals still racing; those that have finished have left the road. */
+export const rivalsOnRoad = (rivals: Rival[]) => rivals.filter(rival => rival.finishTime === null);
+
+/** Everything the player can hit: traffic, and rivals still racing. */
+export const carsOnRoad = (state: Pick<SimulationState, 'enemies' | 'rivals' | 'position'>) => [
+  ...state.enemies,
+  ...rivalsOnRoad(state.rivals).map(rival => ({ x: rival.x, z: rivalZ(state.position, rival) })),
+];
+
+export const detectCollision = (playerX: number, cars: { x: number; z: number }[]) =>
+  cars.some(car => overlaps(playerX, 0, car.x, car.z));
+
+/**
+ * Advances the simulation by `dt` seconds. Never mutates `prev`; a finished
+ * game is returned unchanged. Randomness is drawn from `prev.rngState`, so the
+ * same state and input always produce the same result.
+ */
+export const stepSimulation = (
+  prev: SimulationState,
+  input: SimulationInput,
+  dt: number
+): StepResult => {
+  if (prev.gameOver) return { state: prev, events: [] };
+
+  const { config } = prev;
+  const random = createRandom(prev.rngState);
+  const ticks = dt * TICK_RATE;
+  const events: SimulationEvent[] = [];
+  const state: SimulationState = { ...prev };
+
+  state.time += dt;
+
+  // Handle input through the vehicle model
+  const vehicleParams = vehicleFor(config);
+  const vehicle = stepVehicle(
+    { x: prev.playerX, speed: prev.speed, lateralVelocity: prev.lateralVelocity, sliding: prev.sliding },
+    input,
+    vehicleParams,
+    { maxSpeed: config.maxSpeed, roadEdge: ROAD_EDGE },
+    dt
+  );
+  const playerX = vehicle.x;
+  let speed = vehicle.speed;
+  let usedNitro = false;
+
+  // Nitro boost (Competition mode)
+  if (config.hasNitro && input.nitro && prev.nitroBoost > 0) {
+    speed = Math.min(speed + 0.8 * ticks, config.maxSpeed + 5);
+    state.nitroBoost = Math.max(prev.nitroBoost - 0.5 * ticks, 0);
+    state.nitroTime += dt;
+    state.nitroBurn += prev.nitroBoost - state.nitroBoost;
+    usedNitro = true;
+    if (state.nitroBoost === 0) {
+      events.push({ type: 'nitroEmpty', burned: state.nitroBurn, time: state.time });
+    }
+  } else if (config.hasNitro) {
+    state.nitroBoost = Math.min(prev.nitroBoost + 0.1 * ticks, 100);
+    state.nitroBurn = 0;
+  }
+
+  state.playerX = playerX;
+  state.lateralVelocity = vehicle.lateralVelocity;
+  state.sliding = vehicle.sliding;
+  state.speed = speed;
+  state.position += speed * ticks;
+  state.roadOffset = (state.roadOffset + speed * ticks) % 10;
+
+  // Update perfect driving time
+  if (Math.abs(playerX) < 1 && speed > config.maxSpeed * 0.8) {
+    state.perfectDriving += dt;
+    state.perfectStreak += dt;
+  } else {
+    state.perfectStreak = 0;
+  }
+
+  // Progressive difficulty: the tier follows the distance driven
+  const curve = config.difficultyCurve;
+  const tier = curve ? curve[getDifficultyTier(curve, state.position)] : null;
+  if (curve) {
+    state.difficultyTier = getDifficultyTier(curve, state.position);
+    if (state.difficultyTier !== prev.difficultyTier) {
+      events.push({ type: 'difficulty', tier: state.difficultyTier, time: state.time });
+    }
+  }
+
+  // A car placed by the fair spawner, or null if no slot is free this tick
+  const rules = spawnRulesFor(config);
+  const lateralSpeed = steeringAuthority(vehicleParams, speed, config.maxSpeed);
+  const spawnEnemy = (traffic: Enemy[], enemy?: Enemy): Enemy | null => {
+    const enemySpeed = tier ? random.range(...tier.enemySpeed) : random.range(3, 6);
+    const slot = findSpawnSlot(enemySpeed * TICK_RATE, spawnContext(traffic, playerX, lateralSpeed), rules, random);
+    if (!slot) return null;
+
+    const aggressiveness = tier ? tier.aggressiveness : enemy?.aggressiveness ?? 0;
+    return {
+      ...settledIn(slot.lane),
+      z: slot.z,
+      speed: enemySpeed,
+      color: random.pick(ENEMY_COLORS),
+      aggressiveness,
+      personality: choosePersonality(random, aggressiveness),
+      cruiseSpeed: enemySpeed,
+    };
+  };
+
+  // Update enemies with AI drivers
+  const driverContext = {
+    lanes: LANES,
+    playerX,
+    traffic: prev.enemies,
+    canBlock: config.aggressiveAI || tier !== null,
+    laneChange: tier ? tier.laneChange : 0,
+    dt,
+    ticks,
+    random,
+  };
+  const enemies = prev.enemies.map(enemy => {
+    if (isParked(enemy)) return enemy;
+
+    const driven = driveEnemy(enemy, driverContext);
+    const z = enemy.z + driven.speed * ticks;
+
+    // Cars that have passed the player wait for a new slot
+    return { ...driven, z: z > 15 ? PARKED_Z : z };
+  });
+
+  // Respawn waiting cars one at a time, so each sees the ones placed before it
+  enemies.forEach((enemy, index) => {
+    if (isParked(enemy)) {
+      enemies[index] = spawnEnemy(enemies, enemy) ?? enemy;
+    }
+  });
+
+  // Denser tiers add cars beyond the horizon
+  if (tier && enemies.length < tier.enemies) {
+    const added = spawnEnemy(enemies);
+    if (added) enemies.push(added);
+  }
+  state.enemies = enemies;
+
+  // Rivals race at their own pace and finish once they cover the race distance
+  if (prev.rivals.length > 0) {
+    const raceDistance = config.laps * config.trackLength;
+    const rivalContext = {
+      lanes: LANES,
+      playerX,
+      playerPosition: state.position,
+      canBlock: config.aggressiveAI,
+      dt,
+      ticks,
+      random,
+    };
+    state.rivals = prev.rivals.map(rival => {
+      if (rival.finishTime !== null) return rival;
+
+      const driven = driveRival(rival, rivalContext);
+      return { ...driven, finishTime: driven.position >= raceDistance ? state.time : null };
+    });
+  }
+
+  if (detectCollision(playerX, carsOnRoad(state))) {
+    state.lastCollision = state.time;
+    const impact = !detectCollision(prev.playerX, carsOnRoad(prev));
+    if (impact) state.collisions++;
+
+    if (config.hasHealth) {
+      // Competition mode: Health system
+      state.health = Math.max(prev.health - (config.damage ?? 10), 0);
+      if (state.health <= 0) {
+        state.gameOver = true;
+      }
+    } else {
+      // Other modes: Instant game over
+      state.gameOver = true;
+    }
+
+    events.push({ type: 'collision', time: state.time, health: state.health, impact });
+  }
+
+  // Rivals are solid: whichever car is behind drops back off the other's
+  // bumper and loses speed, so the two don't stay locked together
+  state.rivals = state.rivals.map(rival => {
+    if (rival.finishTime !== null || !overlaps(playerX, 0, rival.x, rivalZ(state.position, rival))) return rival;
+
+    const contact = CAR_LENGTH / TRACK_SCALE;
+    if (state.position < rival.position) {
+      state.position = rival.position - contact;
+      state.speed = Math.min(state.speed, rival.speed * RIVAL_KNOCK);
+      return rival;
+    }
+    return { ...rival, position: state.position - contact, speed: Math.min(rival.speed, state.speed * RIVAL_KNOCK) };
+  });
+
+  // Update score with bonuses
+  let scoreMultiplier = 1;
+  if (usedNitro) scoreMultiplier += 0.5;
+  if (state.perfectDriving > 1) scoreMultiplier += 0.3; // Perfect driving bonus
+  if (speed > config.maxSpeed * 0.9) scoreMultiplier += 0.2; // High speed bonus
+
+  state.score += speed * 10 * scoreMultiplier * ticks;
+
+  // Reaching the target completes the mission; the run carries on for stars
+  if (!prev.targetReached && state.score >= config.targetScore) {
+    state.targetReached = true;
+    events.push({ type: 'targetReached', score: state.score, time: state.time });
+  }
+
+  // Crossing the line at each multiple of the track length completes a lap
+  if (state.position >= prev.lap * config.trackLength) {
+    const split = state.time - prev.lapStartTime;
+    state.lapTimes = [...prev.lapTimes, split];
+    state.bestLap = Math.min(prev.bestLap, split);
+    state.lapStartTime = state.time;
+    events.push({ type: 'lap', lap: prev.lap, split, time: state.time });
+
+    if (prev.lap >= config.laps) {
+      state.finished = true;
+      state.gameOver = true;
+    } else {
+      state.lap = prev.lap + 1;
+    }
+  }
+
+  // Check game end conditions
+  if (state.time >= config.timeLimit) {
+    state.gameOver = true;
+  }
+
+  if (state.rivals.length > 0) {
+    state.competitionRank = 1 + getStandings(state).findIndex(standing => standing.isPlayer);
+  }
+
+  state.rngState = random.state();
+
+  // A perfect-driving stretch ends when it is broken or the run ends
+  if (prev.perfectStreak > 0 && (state.perfectStreak === 0 || state.gameOver)) {
+    const seconds = state.perfectStreak || prev.perfectStreak;
+    events.push({ type: 'perfectStreak', seconds, time: state.time });
+  }
+
+  if (state.gameOver) {
+    events.push({ type: 'gameOver', score: state.score, time: state.time });
+  }
+
+  return { state, events };
+};
+
+/**
+ * Race order: finishers by finishing time, then everyone else by distance
+ * covered.
+ */
+export const getStandings = (state: SimulationState, playerName = 'You'): Standing[] => {
+  const player: Standing = {
+    name: playerName,
+    color: '#ff0000',
+    isPlayer: true,
+    position: state.position,
+    finishTime: state.finished ? state.time : null,
+  };
+  const rivals = state.rivals.map(({ name, color, position, finishTime }) => ({
+    name,
+    color,
+    isPlayer: false,
+    position,
+    finishTime,
+  }));
+
+  return [player, ...rivals].sort((a, b) => {
+    if (a.finishTime !== null && b.finishTime !== null) return a.finishTime - b.finishTime;
+    if (a.finishTime !== null) return -1;
+    if (b.finishTime !== null) return 1;
+    return b.position - a.position;
+  });
+};
+
+export const createFixedStepClock = (state: SimulationState): FixedStepClock => ({
+  state,
+  previous: state,
+  accumulator: 0,
+});
+
+/**
+ * Runs as many fixed ticks as fit into the clock's accumulator plus
+ * `frameTime` seconds, holding `input` for all of them. Stops early once the
+ * game is over. `onTick` sees the state after every tick, for recording.
+ */
+export const advanceFixedSteps = (
+  clock: FixedStepClock,
+  input: SimulationInput,
+  frameTime: number,
+  onTick?: (state: SimulationState) => void
+): FixedStepResult => {
+  let remaining = clock.accumulator + Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME);
+  let { previous, state } = clock;
+  let ticks = 0;
+  const events: SimulationEvent[] = [];
+
+  while (remaining >= TICK_DT && !state.gameOver) {
+    previous = state;
+    const result = stepSimulation(state, input, TICK_DT);
+    state = result.state;
+    events.push(...result.events);
+    onTick?.(state);
+    remaining -= TICK_DT;
+    ticks++;
+  }
+
+  return { state, previous, events, ticks, accumulator: state.gameOver ? 0 : remaining };
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Blends two consecutive ticks for rendering, where `alpha` is the clock's
+ * leftover accumulator as a fraction of a tick. Enemies that respawned in between snap to
+ * their new position instead of sliding back across the road.
+ */
+export const interpolateState = (
+  previous: SimulationState,
+  current: SimulationState,
+  alpha: number
+): SimulationState => {
+  if (previous === current || alpha <= 0) return current;
+
+  return {
+    ...current,
+    time: lerp(previous.time, current.time, alpha),
+    score: lerp(previous.score, current.score, alpha),
+    speed: lerp(previous.speed, current.speed, alpha),
+    position: lerp(previous.position, current.position, alpha),
+    playerX: lerp(previous.playerX, current.playerX, alpha),
+    lateralVelocity: lerp(previous.lateralVelocity, current.lateralVelocity, alpha),
+    rivals: current.rivals.map((rival, index) => ({
+      ...rival,
+      position: lerp(previous.rivals[index].position, rival.position, alpha),
+    })),
+    enemies: current.enemies.map((enemy, index) => {
+      const before = previous.enemies[index];
+      if (!before || before.z > enemy.z || isParked(before)) return enemy;
+      return {
+        ...enemy,
+        x: lerp(before.x, enemy.x, alpha),
+        z: lerp(before.z, enemy.z, alpha),
+      };
+    }),
+  };
+};
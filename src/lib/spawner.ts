@@ -0,0 +1,104 @@
+// Fair traffic spawning. New cars only appear where they don't overlap
+// another car, and never complete a wall: whenever a car would arrive
+// alongside others, the player must still be able to steer into a gap in
+// the time it takes that car to reach them. Plain functions of their inputs,
+// so the rules can be checked headlessly.
+
+import { Random } from './random';
+import type { LaneChange } from './drivers';
+
+export interface SpawnRules {
+  near: number; // z range new cars appear in, nearest edge
+  far: number; // Farthest edge
+  minGap: number; // Least z distance between two cars sharing a lane
+  rowWindow: number; // Cars within this z of each other arrive together
+  attempts: number; // Random slots tried before the car waits a tick
+}
+
+export const DEFAULT_SPAWN_RULES: SpawnRules = {
+  near: -20,
+  far: -30,
+  minGap: 4,
+  rowWindow: 3,
+  attempts: 6,
+};
+
+export interface SpawnContext {
+  lanes: number[];
+  traffic: (LaneChange & { z: number; speed: number })[]; // Traffic speeds are per tick
+  tickRate: number;
+  playerX: number;
+  lateralSpeed: number; // How fast the player can move sideways, units per second
+  roadEdge: number; // The player can steer between -roadEdge and roadEdge
+  carWidth: number;
+}
+
+export interface SpawnSlot {
+  lane: number;
+  z: number;
+}
+
+// Cars waiting for a slot are parked here, out of sight and out of reach
+export const PARKED_Z = -1000;
+
+export const isParked = (car: { z: number }) => car.z <= PARKED_Z;
+
+const occupies = (car: LaneChange, lane: number) => car.lane === lane || car.targetLane === lane;
+
+/**
+ * Whether some point within `reach` of the player is clear of every car in
+ * `row`, i.e. the player can dodge all of them.
+ */
+export const hasEscape = (row: number[], context: Pick<SpawnContext, 'playerX' | 'roadEdge' | 'carWidth'>, reach: number) => {
+  const { playerX, roadEdge, carWidth } = context;
+  let from = Math.max(playerX - reach, -roadEdge);
+  const to = Math.min(playerX + reach, roadEdge);
+
+  // Sweep the reachable span left to right past each blocked interval
+  const blocked = row.map(x => [x - carWidth, x + carWidth]).sort((a, b) => a[0] - b[0]);
+  for (const [start, end] of blocked) {
+    if (start > from) return true;
+    from = Math.max(from, end);
+    if (from > to) return false;
+  }
+  return from <= to;
+};
+
+/** Whether a car at `slot`, closing at `speed` units per second, would be fair. */
+export const isFairSlot = (slot: SpawnSlot, speed: number, context: SpawnContext, rules: SpawnRules) => {
+  const { lanes, traffic, lateralSpeed } = context;
+  const active = traffic.filter(car => !isParked(car));
+
+  // No overlaps, and room to brake behind whoever is in the lane
+  if (active.some(car => occupies(car, slot.lane) && Math.abs(car.z - slot.z) < rules.minGap)) return false;
+
+  // Nor so close ahead of a car changing lanes that it would have to brake
+  // before it reaches the player, cutting its signal short
+  const crowds = (car: SpawnContext['traffic'][number]) => {
+    const carSpeed = car.speed * context.tickRate;
+    return car.z > slot.z && speed > carSpeed && (car.z - slot.z) / (speed - carSpeed) < -car.z / carSpeed;
+  };
+  if (active.some(car => car.targetLane === slot.lane && car.lane !== slot.lane && crowds(car))) return false;
+
+  // No walls: the player can reach a gap before this row arrives
+  const row = active.filter(car => Math.abs(car.z - slot.z) < rules.rowWindow).map(car => car.x);
+  const arrival = -slot.z / speed;
+  return hasEscape([...row, lanes[slot.lane]], context, lateralSpeed * arrival);
+};
+
+/** A random fair slot for a car closing at `speed`, or null if none was found. */
+export const findSpawnSlot = (
+  speed: number,
+  context: SpawnContext,
+  rules: SpawnRules,
+  random: Random
+): SpawnSlot | null => {
+  for (let attempt = 0; attempt < rules.attempts; attempt++) {
+    const slot = {
+      lane: random.int(context.lanes.length),
+      z: random.range(rules.far, rules.near),
+    };
+    if (isFairSlot(slot, speed, context, rules)) return slot;
+  }
+  return null;
+};
@@ -0,0 +1,24 @@
+// Display conversions for simulation quantities. The HUD has always shown
+// `speed * 10` as mph and `position / 10` as metres; other units derive
+// from those.
+
+import { DistanceUnit, SpeedUnit } from './settings';
+
+const KMH_PER_MPH = 1.609344;
+const FEET_PER_METRE = 3.28084;
+
+export const toDisplaySpeed = (speed: number, unit: SpeedUnit) => {
+  const mph = speed * 10;
+  return Math.floor(unit === 'kmh' ? mph * KMH_PER_MPH : mph);
+};
+
+export const toDisplayDistance = (position: number, unit: DistanceUnit) => {
+  const metres = position / 10;
+  return unit === 'ft' ? metres * FEET_PER_METRE : metres;
+};
+
+export const formatSpeed = (speed: number, unit: SpeedUnit) =>
+  `${toDisplaySpeed(speed, unit)} ${unit === 'kmh' ? 'km/h' : 'mph'}`;
+
+export const formatDistance = (position: number, unit: DistanceUnit) =>
+  `${Math.floor(toDisplayDistance(position, unit))} ${unit}`;
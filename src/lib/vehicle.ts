@@ -0,0 +1,101 @@
+// Arcade handling for the player car. Speeds are in simulation units (per
+// tick, as everywhere in the simulation); rates are per second, so the model
+// runs the same at any tick rate. Everything that shapes how a car feels is a
+// field of VehicleParams, so modes and cars can each tune their own.
+
+import type { SimulationInput } from './simulation';
+
+export interface VehicleParams {
+  acceleration: number; // Speed gained per second at full throttle from a standstill
+  brakeForce: number; // Speed shed per second at full brake
+  drag: number; // Fraction of speed lost per second off the throttle or above top speed
+  rollingResistance: number; // Flat speed lost per second off the throttle
+  idleSpeed: number; // Speed the car creeps back up to when coasting
+  minSpeed: number; // Slowest the brakes take it
+  steering: number; // Sideways speed at full lock when slow, units per second
+  highSpeedSteering: number; // Fraction of that steering left at top speed
+  grip: number; // How quickly sideways velocity follows the steering, per second
+  slideGrip: number; // Fraction of grip left once the car is sliding
+  slideThreshold: number; // Steering demand beyond the car's sideways speed at which the tyres let go
+}
+
+export interface VehicleState {
+  x: number;
+  speed: number;
+  lateralVelocity: number; // Units per second, positive to the right
+  sliding: boolean;
+}
+
+export interface VehicleLimits {
+  maxSpeed: number;
+  roadEdge: number;
+}
+
+export const DEFAULT_VEHICLE: VehicleParams = {
+  acceleration: 30,
+  brakeForce: 30,
+  drag: 0.4,
+  rollingResistance: 1,
+  idleSpeed: 5,
+  minSpeed: 2,
+  steering: 7,
+  highSpeedSteering: 0.7,
+  grip: 12,
+  slideGrip: 0.4,
+  slideThreshold: 5,
+};
+
+/** Sideways speed at full lock, which drops as the car goes faster. */
+export const steeringAuthority = (params: VehicleParams, speed: number, maxSpeed: number) =>
+  params.steering * (1 - (1 - params.highSpeedSteering) * Math.min(speed / maxSpeed, 1));
+
+export const stepVehicle = (
+  vehicle: VehicleState,
+  input: SimulationInput,
+  params: VehicleParams,
+  limits: VehicleLimits,
+  dt: number
+): VehicleState => {
+  const { maxSpeed, roadEdge } = limits;
+  let { speed, lateralVelocity } = vehicle;
+
+  // Longitudinal: the engine pulls hardest off the line and fades toward top
+  // speed; off the throttle, drag and rolling resistance slow the car
+  const ratio = speed / maxSpeed;
+  const coasting = input.throttle === 0 && input.brake === 0;
+  if (coasting && speed < params.idleSpeed) {
+    speed = Math.min(speed + (params.acceleration / 2) * dt, params.idleSpeed);
+  } else {
+    let acceleration = 0;
+    if (input.throttle > 0 && ratio < 1) {
+      acceleration += params.acceleration * input.throttle * (1 - ratio * ratio);
+    }
+    if (input.brake > 0) {
+      acceleration -= params.brakeForce * input.brake;
+    }
+    if (input.throttle === 0 || ratio > 1) {
+      acceleration -= params.drag * speed + params.rollingResistance;
+    }
+    const next = speed + acceleration * dt;
+    // Only nitro takes the car past top speed; drag brings it back down
+    speed = Math.max(ratio <= 1 ? Math.min(next, maxSpeed) : next, coasting ? params.idleSpeed : params.minSpeed);
+  }
+
+  // Lateral: the wheels ask for a sideways speed and grip decides how fast
+  // the car follows. Ask for too much at once, like flicking from one lock
+  // to the other at speed, and the tyres let go until the car catches up.
+  const target = input.steer * steeringAuthority(params, speed, maxSpeed);
+  const demand = Math.abs(target - lateralVelocity) * (speed / maxSpeed);
+  const sliding = demand > params.slideThreshold || (vehicle.sliding && demand > params.slideThreshold / 2);
+  const grip = params.grip * (sliding ? params.slideGrip : 1);
+  lateralVelocity += (target - lateralVelocity) * Math.min(1, grip * dt);
+
+  let x = vehicle.x + lateralVelocity * dt;
+  if (Math.abs(x) > roadEdge) {
+    // The barrier stops sideways movement dead
+    x = Math.sign(x) * roadEdge;
+    lateralVelocity = 0;
+  }
+
+  return { x, speed, lateralVelocity, sliding };
+};
@@ -0,0 +1,10 @@
+import { useNavigate } from 'react-router-dom';
+import { Achievements } from '@/components/Achievements';
+
+const AchievementsPage = () => {
+  const navigate = useNavigate();
+
+  return <Achievements onBack={() => navigate('/profile')} />;
+};
+
+export default AchievementsPage;
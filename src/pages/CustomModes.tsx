@@ -0,0 +1,20 @@
+import { useNavigate } from 'react-router-dom';
+import { CustomModeBuilder } from '@/components/CustomModeBuilder';
+import { CustomModeValues, customBoardId, encodeCustomMode } from '@/lib/customModes';
+
+const playPath = (mode: CustomModeValues) => `/play/custom?config=${encodeCustomMode(mode)}`;
+
+const CustomModes = () => {
+  const navigate = useNavigate();
+
+  return (
+    <CustomModeBuilder
+      onBack={() => navigate('/')}
+      onPlay={(mode) => navigate(playPath(mode))}
+      onShowLeaderboard={(mode) => navigate(`/leaderboard/${customBoardId(mode.id)}`)}
+      shareUrl={(mode) => `${window.location.origin}${playPath(mode)}`}
+    />
+  );
+};
+
+export default CustomModes;
@@ -0,0 +1,10 @@
+import { useNavigate } from 'react-router-dom';
+import { Garage } from '@/components/Garage';
+
+const GaragePage = () => {
+  const navigate = useNavigate();
+
+  return <Garage onBack={() => navigate('/')} onShowPaintShop={() => navigate('/garage/paint')} />;
+};
+
+export default GaragePage;
@@ -1,58 +1,19 @@
-import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { GameModeSelector } from '@/components/GameModeSelector';
-import { RacingGame3D, GameMode } from '@/components/RacingGame3D';
-import { Leaderboard } from '@/components/Leaderboard';
-
-type AppState = 'menu' | 'playing' | 'leaderboard';
 
 const Index = () => {
-  const [appState, setAppState] = useState<AppState>('menu');
-  const [selectedMode, setSelectedMode] = useState<GameMode>('classic');
-
-  const handleSelectMode = (mode: GameMode) => {
-    setSelectedMode(mode);
-    setAppState('playing');
-  };
-
-  const handleGameEnd = (score: number, time: number) => {
-    // Here you could save the score to leaderboard
-    // For now, we'll just return to menu
-    setTimeout(() => {
-      setAppState('menu');
-    }, 3000);
-  };
-
-  const handleBackToMenu = () => {
-    setAppState('menu');
-  };
-
-  const handleShowLeaderboard = () => {
-    setAppState('leaderboard');
-  };
-
-  switch (appState) {
-    case 'playing':
-      return (
-        <RacingGame3D 
-          mode={selectedMode}
-          onGameEnd={handleGameEnd}
-          onBack={handleBackToMenu}
-        />
-      );
-    
-    case 'leaderboard':
-      return (
-        <Leaderboard onBack={handleBackToMenu} />
-      );
-    
-    default:
-      return (
-        <GameModeSelector 
-          onSelectMode={handleSelectMode}
-          onShowLeaderboard={handleShowLeaderboard}
-        />
-      );
-  }
+  const navigate = useNavigate();
+
+  return (
+    <GameModeSelector 
+      onSelectMode={(mode) => navigate(`/play/${mode}`)}
+      onShowLeaderboard={() => navigate('/leaderboard')}
+      onShowSettings={() => navigate('/settings')}
+      onShowCustomModes={() => navigate('/custom')}
+      onShowGarage={() => navigate('/garage')}
+      onShowProfile={() => navigate('/profile')}
+    />
+  );
 };
 
 export default Index;
@@ -0,0 +1,30 @@
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { Leaderboard } from '@/components/Leaderboard';
+import { isGameMode } from '@/lib/modes';
+import { parseCustomBoardId } from '@/lib/customModes';
+import NotFound from './NotFound';
+
+// /leaderboard/:board, with /leaderboard opening the classic tab. A board is a
+// built-in mode or a custom mode's board id.
+const LeaderboardPage = () => {
+  const navigate = useNavigate();
+  const { board } = useParams();
+
+  if (!board) {
+    return <Navigate to="/leaderboard/classic" replace />;
+  }
+  if (!isGameMode(board) && !parseCustomBoardId(board)) {
+    return <NotFound />;
+  }
+
+  return (
+    <Leaderboard
+      board={board}
+      onBoardChange={(next) => navigate(`/leaderboard/${next}`, { replace: true })}
+      onBack={() => navigate('/')}
+      onWatchReplay={(replayId) => navigate(`/replay/${replayId}`)}
+    />
+  );
+};
+
+export default LeaderboardPage;
@@ -0,0 +1,10 @@
+import { useNavigate } from 'react-router-dom';
+import { PaintShop } from '@/components/PaintShop';
+
+const PaintShopPage = () => {
+  const navigate = useNavigate();
+
+  return <PaintShop onBack={() => navigate('/garage')} />;
+};
+
+export default PaintShopPage;
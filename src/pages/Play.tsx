@@ -0,0 +1,53 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { RacingGame3D, GameResult } from '@/components/RacingGame3D';
+import { isGameMode } from '@/lib/modes';
+import { parseSeed } from '@/lib/random';
+import { recordScore, savePlayerName } from '@/lib/leaderboard';
+import { saveReplay } from '@/lib/replay';
+import { customBoardId, decodeCustomMode, hashCustomMode, saveCustomMode } from '@/lib/customModes';
+import { loadSelectedCar } from '@/lib/garage';
+import NotFound from './NotFound';
+
+// /play/:mode?seed=1A2B3C4D, or /play/custom?config=<share code> for custom modes
+const Play = () => {
+  const navigate = useNavigate();
+  const { mode } = useParams();
+  const [searchParams] = useSearchParams();
+  const seed = parseSeed(searchParams.get('seed') ?? '') ?? undefined;
+  const code = searchParams.get('config');
+  const custom = useMemo(() => (mode === 'custom' && code ? decodeCustomMode(code) : null), [mode, code]);
+  const [car] = useState(loadSelectedCar);
+
+  // Opening a shared link adds the mode to the player's own list
+  useEffect(() => {
+    if (custom) saveCustomMode(custom);
+  }, [custom]);
+
+  const runMode = custom ? 'custom' : mode && isGameMode(mode) ? mode : null;
+  if (!runMode) {
+    return <NotFound />;
+  }
+
+  const board = custom ? customBoardId(hashCustomMode(custom)) : runMode;
+
+  const handleGameEnd = ({ mode, score, time, playerName, replay }: GameResult) => {
+    savePlayerName(playerName);
+    const { id: replayId } = saveReplay(replay);
+    recordScore(mode, { playerName, score, time, replayId }, board);
+    navigate(`/leaderboard/${board}`);
+  };
+
+  return (
+    <RacingGame3D
+      mode={runMode}
+      custom={custom ?? undefined}
+      car={car}
+      seed={seed}
+      onGameEnd={handleGameEnd}
+      onBack={() => navigate('/')}
+    />
+  );
+};
+
+export default Play;
@@ -0,0 +1,10 @@
+import { useNavigate } from 'react-router-dom';
+import { PlayerProfile } from '@/components/PlayerProfile';
+
+const Profile = () => {
+  const navigate = useNavigate();
+
+  return <PlayerProfile onBack={() => navigate('/')} onShowAchievements={() => navigate('/profile/achievements')} />;
+};
+
+export default Profile;
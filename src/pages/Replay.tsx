@@ -0,0 +1,22 @@
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { ReplayViewer } from '@/components/ReplayViewer';
+
+// /replay/:id
+const Replay = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { id } = useParams();
+
+  // A shared link opens with no history of ours to go back to
+  const handleBack = () => {
+    if (location.key === 'default') {
+      navigate('/leaderboard');
+    } else {
+      navigate(-1);
+    }
+  };
+
+  return <ReplayViewer key={id} replayId={id} onBack={handleBack} />;
+};
+
+export default Replay;
@@ -0,0 +1,10 @@
+import { useNavigate } from 'react-router-dom';
+import { Settings } from '@/components/Settings';
+
+const SettingsPage = () => {
+  const navigate = useNavigate();
+
+  return <Settings onBack={() => navigate('/')} />;
+};
+
+export default SettingsPage;